@@ -0,0 +1,392 @@
+/**
+ * @fileoverview Content-addressed storage of binary assets, and conversion between
+ * embedded assets (`Uint8Array` or `data:` URLs) and `local:` URLs.
+ *
+ * Imported characters keep their binaries in an {@link AssetStore}, and refer to them
+ * by `local:<hash>`, where the hash is the hex SHA-256 of the bytes. Exported characters
+ * embed the binaries again. Assets of the character, inlays of messages and file
+ * message content are all converted.
+ *
+ * Asset entities may declare the `hash` of their data. It's filled when the asset is
+ * hashed, and verified when the asset is imported or internalized.
+ */
+import { toJSONPath } from "@/report";
+import type { Character } from "@/types/v0/Character/Character";
+import type { Message } from "@/types/v0/Character/Message";
+import { fromDataURL, toDataURL } from "@/utils";
+
+/**
+ * Storage of binaries, keyed by their content hash from {@link hashContent}.
+ * Implementations may be backed by memory, OPFS, IndexedDB or a server.
+ */
+export interface AssetStore {
+    /**
+     * Stores the bytes. Storing the same hash again is a no-op.
+     * @param hash The content hash of the bytes.
+     * @param data The bytes.
+     */
+    put(hash: string, data: Uint8Array): Promise<void>;
+    /**
+     * @returns The bytes, or undefined if the hash is not stored.
+     */
+    get(hash: string): Promise<Uint8Array | undefined>;
+    has(hash: string): Promise<boolean>;
+    /**
+     * @returns True if the hash was stored.
+     */
+    delete(hash: string): Promise<boolean>;
+}
+
+/**
+ * Thrown when an asset can't be converted.
+ */
+export class AssetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "AssetError";
+    }
+}
+
+/**
+ * Thrown when the data of an asset doesn't match its declared `hash`.
+ */
+export class AssetIntegrityError extends AssetError {
+    /** JSON path of the asset, e.g. `$.assets.assets[0]`. */
+    readonly path: string;
+
+    constructor(message: string, path: string) {
+        super(message);
+        this.name = "AssetIntegrityError";
+        this.path = path;
+    }
+}
+
+/**
+ * An {@link AssetStore} which keeps the bytes in memory. Useful for tests and servers.
+ */
+export class MemoryAssetStore implements AssetStore {
+    readonly #blobs = new Map<string, Uint8Array>();
+
+    async put(hash: string, data: Uint8Array): Promise<void> {
+        if (!this.#blobs.has(hash)) this.#blobs.set(hash, data.slice());
+    }
+
+    async get(hash: string): Promise<Uint8Array | undefined> {
+        return this.#blobs.get(hash)?.slice();
+    }
+
+    async has(hash: string): Promise<boolean> {
+        return this.#blobs.has(hash);
+    }
+
+    async delete(hash: string): Promise<boolean> {
+        return this.#blobs.delete(hash);
+    }
+
+    /** Number of stored binaries. */
+    get size(): number {
+        return this.#blobs.size;
+    }
+}
+
+/**
+ * Computes the content hash of the bytes.
+ * @param data The bytes.
+ * @returns The hex SHA-256 of the bytes.
+ */
+export async function hashContent(data: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest(
+        "SHA-256",
+        data as Uint8Array<ArrayBuffer>,
+    );
+    return Array.from(new Uint8Array(digest), (b) =>
+        b.toString(16).padStart(2, "0"),
+    ).join("");
+}
+
+/**
+ * Computes the content hash of file data, i.e. `data` of `FileSchema`.
+ * @param data Binary data, a `data:` URL, a `local:` URL or a remote URL.
+ * @returns The hex SHA-256 of the bytes, the hash of the `local:` URL,
+ * or null for remote URLs since their content is unknown.
+ */
+export async function hashFile(
+    data: string | Uint8Array,
+): Promise<string | null> {
+    if (typeof data !== "string") return hashContent(data);
+    const local = parseLocalURL(data);
+    if (local !== null) return local;
+    const decoded = fromDataURL(data);
+    return decoded ? hashContent(decoded.data) : null;
+}
+
+/**
+ * Returns the `local:` URL of the hash.
+ */
+export const toLocalURL = (hash: string): string => `local:${hash}`;
+
+/**
+ * Returns the hash of the `local:` URL, or null if it's not a `local:` URL.
+ */
+export function parseLocalURL(url: string): string | null {
+    return /^local:/i.test(url) ? url.slice("local:".length) : null;
+}
+
+/**
+ * An object with `data` and `mimeType`, i.e. an asset, an inlay or file message content.
+ */
+type FileObject = Record<string, unknown> & {
+    data: string | Uint8Array;
+    mimeType: string;
+};
+
+type FileCallback = (
+    file: FileObject,
+    path: PropertyKey[],
+) => Promise<FileObject>;
+
+/**
+ * Maps the asset entities of the list. Returns the list itself if nothing changed.
+ */
+async function mapAssetList<T extends object>(
+    assets: T[],
+    path: PropertyKey[],
+    callback: FileCallback,
+): Promise<T[]> {
+    const mapped: T[] = [];
+    for (const [i, asset] of assets.entries())
+        mapped.push((await callback(asset as FileObject, [...path, i])) as T);
+    return mapped.some((asset, i) => asset !== assets[i]) ? mapped : assets;
+}
+
+/**
+ * Maps the inlays and the file content of the message.
+ */
+async function mapMessageFiles(
+    message: Message,
+    path: PropertyKey[],
+    callback: FileCallback,
+): Promise<Message> {
+    let output = message;
+    const inlays = await mapAssetList(
+        message.inlays,
+        [...path, "inlays"],
+        callback,
+    );
+    if (inlays !== message.inlays) output = { ...output, inlays };
+    if (message.content.type === "file") {
+        const content = await callback(message.content, [...path, "content"]);
+        if (content !== message.content)
+            output = {
+                ...output,
+                content: content as typeof message.content,
+            };
+    }
+    return output;
+}
+
+/**
+ * Replaces every file in the value with the output of the callback.
+ * Files are `assets.assets` of a character, and `inlays` and file `content` of messages.
+ * Unchanged parts of the value are kept by reference.
+ */
+async function mapFiles<T extends AssetContainer>(
+    value: T,
+    callback: FileCallback,
+): Promise<T> {
+    if (Array.isArray(value)) {
+        const messages = value as readonly Message[];
+        const mapped: Message[] = [];
+        for (const [i, message] of messages.entries())
+            mapped.push(await mapMessageFiles(message, [i], callback));
+        return (
+            mapped.some((message, i) => message !== messages[i])
+                ? mapped
+                : value
+        ) as T;
+    }
+    if ("specVersion" in value) {
+        const character = value as Character;
+        const assets = await mapAssetList(
+            character.assets.assets,
+            ["assets", "assets"],
+            callback,
+        );
+        return (
+            assets === character.assets.assets
+                ? value
+                : {
+                      ...character,
+                      assets: { ...character.assets, assets },
+                  }
+        ) as T;
+    }
+    return (await mapMessageFiles(value as Message, [], callback)) as T;
+}
+
+/**
+ * Sets `hash` of the file if it's an asset entity. File message content has no `hash`.
+ */
+const withHash = (file: FileObject, hash: string): FileObject =>
+    typeof file.name === "string" ? { ...file, hash } : file;
+
+/**
+ * Throws if the file declares a `hash` which doesn't match the actual hash.
+ */
+function checkHash(
+    file: FileObject,
+    actual: string | null,
+    path: PropertyKey[],
+): void {
+    if (
+        typeof file.hash === "string" &&
+        actual !== null &&
+        file.hash !== actual
+    )
+        throw new AssetIntegrityError(
+            `Data of ${JSON.stringify(file.name)} doesn't match its hash`,
+            toJSONPath(path),
+        );
+}
+
+/**
+ * Values whose files are converted by {@link internalizeAssets} and {@link externalizeAssets}.
+ */
+export type AssetContainer = Character | Message | readonly Message[];
+
+/**
+ * Verifies that the data of every asset with a declared `hash` matches it.
+ * Assets with remote URLs are skipped, since their content is unknown.
+ * @param value A character, a message, or messages.
+ * @throws {AssetIntegrityError} If the data of an asset doesn't match its hash.
+ */
+export async function verifyAssets(value: AssetContainer): Promise<void> {
+    await mapFiles(value, async (file, path) => {
+        if (typeof file.hash === "string")
+            checkHash(file, await hashFile(file.data), path);
+        return file;
+    });
+}
+
+/**
+ * The result of {@link dedupeAssets}.
+ */
+export interface DedupeResult<T> {
+    /** The value with shared binaries and filled `hash`. */
+    value: T;
+    /** Number of distinct binaries. */
+    unique: number;
+    /** Number of files whose binary is the same as an earlier file. */
+    duplicates: number;
+}
+
+/**
+ * Hashes every embedded binary in the value, fills `hash` of asset entities, and collapses
+ * identical `Uint8Array` data into one shared instance. Since the store is content-addressed,
+ * {@link internalizeAssets} stores them as one blob.
+ * `data:` URLs are hashed but kept as is.
+ * @param value A character, a message, or messages.
+ * @returns A copy of the value, and the counts. The value itself is not modified.
+ * @throws {AssetIntegrityError} If the data of an asset doesn't match its declared hash.
+ */
+export async function dedupeAssets<T extends AssetContainer>(
+    value: T,
+): Promise<DedupeResult<T>> {
+    const hashes = new Set<string>();
+    const blobs = new Map<string, Uint8Array>();
+    let duplicates = 0;
+    const output = await mapFiles(value, async (file, path) => {
+        if (typeof file.data === "string" && parseLocalURL(file.data) !== null)
+            return file;
+        const hash = await hashFile(file.data);
+        if (hash === null) return file;
+        checkHash(file, hash, path);
+        if (hashes.has(hash)) duplicates++;
+        else hashes.add(hash);
+        let data = file.data;
+        if (data instanceof Uint8Array) {
+            const shared = blobs.get(hash);
+            if (shared) data = shared;
+            else blobs.set(hash, data);
+        }
+        return withHash({ ...file, data }, hash);
+    });
+    return { value: output, unique: hashes.size, duplicates };
+}
+
+/**
+ * Moves embedded binaries into the store, and replaces them with `local:` URLs.
+ * `Uint8Array` data and `data:` URLs are converted. Remote URLs and `local:` URLs are kept.
+ * `hash` of asset entities is filled.
+ * @param value A character, a message, or messages.
+ * @param store The store to put the binaries into.
+ * @returns A copy of the value with `local:` URLs. The value itself is not modified.
+ * @throws {AssetIntegrityError} If the data of an asset doesn't match its declared hash.
+ * @example
+ * ```ts
+ * const character = await importCharacter(file);
+ * await db.save(await internalizeAssets(character, store));
+ * ```
+ */
+export async function internalizeAssets<T extends AssetContainer>(
+    value: T,
+    store: AssetStore,
+): Promise<T> {
+    return mapFiles(value, async (file, path) => {
+        const bytes =
+            typeof file.data === "string"
+                ? fromDataURL(file.data)?.data
+                : file.data;
+        if (!bytes) return file;
+        const hash = await hashContent(bytes);
+        checkHash(file, hash, path);
+        await store.put(hash, bytes);
+        return withHash({ ...file, data: toLocalURL(hash) }, hash);
+    });
+}
+
+/**
+ * Options for {@link externalizeAssets}.
+ */
+export interface ExternalizeOptions {
+    /**
+     * Form of the embedded binaries.
+     * - `binary`: `Uint8Array`, for the binary transport formats. Default.
+     * - `dataURL`: `data:` URLs, for JSON.
+     */
+    as?: "binary" | "dataURL";
+}
+
+/**
+ * Replaces `local:` URLs with the binaries in the store, for export.
+ * @param value A character, a message, or messages.
+ * @param store The store to get the binaries from.
+ * @param options Form of the embedded binaries.
+ * @returns A copy of the value with embedded binaries. The value itself is not modified.
+ * @throws {AssetError} If a `local:` URL is not in the store.
+ * @example
+ * ```ts
+ * const file = await exportCharacter(await externalizeAssets(character, store));
+ * ```
+ */
+export async function externalizeAssets<T extends AssetContainer>(
+    value: T,
+    store: AssetStore,
+    options: ExternalizeOptions = {},
+): Promise<T> {
+    return mapFiles(value, async (file) => {
+        if (typeof file.data !== "string") return file;
+        const hash = parseLocalURL(file.data);
+        if (hash === null) return file;
+        const bytes = await store.get(hash);
+        if (!bytes)
+            throw new AssetError(`${file.data} is not in the asset store`);
+        return {
+            ...file,
+            data:
+                options.as === "dataURL"
+                    ? toDataURL(bytes, file.mimeType)
+                    : bytes,
+        };
+    });
+}
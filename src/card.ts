@@ -0,0 +1,944 @@
+/**
+ * @fileoverview Conversion between ArisuTalk characters and Character Card V2/V3,
+ * used by SillyTavern and many other frontends.
+ * @see https://github.com/malfoyslastname/character-card-spec-v2
+ * @see https://github.com/kwaroran/character-card-spec-v3
+ */
+import { z } from "zod";
+import { MigrationReport, toJSONPath } from "@/report";
+import type { AssetEntitySchema } from "@/types/v0/Character/Assets";
+import {
+    type Character,
+    CharacterSchema,
+} from "@/types/v0/Character/Character";
+import type {
+    LorebookCondition,
+    LorebookEntry,
+} from "@/types/v0/Character/Lorebook";
+import type { ReplaceHookEntitySchema } from "@/types/v0/Executables/ReplaceHook";
+import { toDataURL } from "@/utils";
+
+/**
+ * A lorebook entry of Character Card V2/V3.
+ * `use_regex` is only defined in V3.
+ */
+export const CardBookEntrySchema = z.looseObject({
+    keys: z.array(z.string()).default([]),
+    content: z.string().default(""),
+    extensions: z.record(z.string(), z.unknown()).default({}),
+    enabled: z.boolean().default(true),
+    insertion_order: z.number().default(0),
+    case_sensitive: z.boolean().optional(),
+    use_regex: z.boolean().optional(),
+    constant: z.boolean().optional(),
+    name: z.string().optional(),
+    priority: z.number().optional(),
+    id: z.union([z.number(), z.string()]).optional(),
+    comment: z.string().optional(),
+    selective: z.boolean().optional(),
+    secondary_keys: z.array(z.string()).optional(),
+    position: z.string().optional(),
+});
+
+/**
+ * A lorebook entry of Character Card V2/V3.
+ */
+export type CardBookEntry = z.infer<typeof CardBookEntrySchema>;
+
+/**
+ * The lorebook (`character_book`) of Character Card V2/V3.
+ */
+export const CardBookSchema = z.looseObject({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    scan_depth: z.number().optional(),
+    token_budget: z.number().optional(),
+    recursive_scanning: z.boolean().optional(),
+    extensions: z.record(z.string(), z.unknown()).default({}),
+    entries: z.array(CardBookEntrySchema).default([]),
+});
+
+/**
+ * The lorebook (`character_book`) of Character Card V2/V3.
+ */
+export type CardBook = z.infer<typeof CardBookSchema>;
+
+/**
+ * An asset of Character Card V3.
+ */
+export const CardAssetSchema = z.looseObject({
+    type: z.string(),
+    uri: z.string(),
+    name: z.string(),
+    ext: z.string(),
+});
+
+/**
+ * An asset of Character Card V3.
+ */
+export type CardAsset = z.infer<typeof CardAssetSchema>;
+
+const cardDataShape = {
+    name: z.string(),
+    description: z.string().default(""),
+    personality: z.string().default(""),
+    scenario: z.string().default(""),
+    first_mes: z.string().default(""),
+    mes_example: z.string().default(""),
+    creator_notes: z.string().default(""),
+    system_prompt: z.string().default(""),
+    post_history_instructions: z.string().default(""),
+    alternate_greetings: z.array(z.string()).default([]),
+    character_book: CardBookSchema.optional(),
+    tags: z.array(z.string()).default([]),
+    creator: z.string().default(""),
+    character_version: z.string().default(""),
+    extensions: z.record(z.string(), z.unknown()).default({}),
+};
+
+/**
+ * Character Card V2. Missing fields are filled with empty values, since many cards omit them.
+ */
+export const CardV2Schema = z.object({
+    spec: z.literal("chara_card_v2"),
+    spec_version: z.string().default("2.0"),
+    data: z.looseObject(cardDataShape),
+});
+
+/**
+ * Character Card V2.
+ */
+export type CardV2 = z.infer<typeof CardV2Schema>;
+
+/**
+ * Character Card V3. Missing fields are filled with empty values, since many cards omit them.
+ */
+export const CardV3Schema = z.object({
+    spec: z.literal("chara_card_v3"),
+    spec_version: z.string().default("3.0"),
+    data: z.looseObject({
+        ...cardDataShape,
+        assets: z.array(CardAssetSchema).optional(),
+        nickname: z.string().optional(),
+        creator_notes_multilingual: z.record(z.string(), z.string()).optional(),
+        source: z.array(z.string()).optional(),
+        group_only_greetings: z.array(z.string()).default([]),
+        creation_date: z.number().optional(),
+        modification_date: z.number().optional(),
+    }),
+});
+
+/**
+ * Character Card V3.
+ */
+export type CardV3 = z.infer<typeof CardV3Schema>;
+
+/**
+ * Character Card V2 or V3, discriminated by `spec`.
+ */
+export const CardSchema = z.discriminatedUnion("spec", [
+    CardV2Schema,
+    CardV3Schema,
+]);
+
+/**
+ * Character Card V2 or V3.
+ */
+export type Card = z.infer<typeof CardSchema>;
+
+/**
+ * Options for {@link importCharacterCard}.
+ */
+export interface CardImportOptions {
+    /** ID of the imported character. Random UUID by default. */
+    id?: string;
+    /**
+     * The PNG image which carried the card, if any.
+     * It's the asset of `ccdefault:` URIs in V3 cards, and the avatar of cards without an icon asset.
+     */
+    image?: Uint8Array;
+}
+
+/**
+ * The result of {@link importCharacterCard}.
+ */
+export interface CardImportResult {
+    character: Character;
+    /** Everything that was converted, defaulted or couldn't be represented. */
+    report: MigrationReport;
+}
+
+/**
+ * MIME types of common file extensions in card assets.
+ */
+const mimeTypesByExtension: Readonly<Record<string, string>> = {
+    png: "image/png",
+    apng: "image/apng",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    webp: "image/webp",
+    gif: "image/gif",
+    avif: "image/avif",
+    mp3: "audio/mpeg",
+    wav: "audio/wav",
+    ogg: "audio/ogg",
+    mp4: "video/mp4",
+    webm: "video/webm",
+};
+
+/**
+ * Escapes the text so it can be used as a literal in RegExp.
+ */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Converts a lorebook key into a condition.
+ * @param key The key of the card lorebook entry.
+ * @param entry The entry which contains the key.
+ */
+function keyToCondition(key: string, entry: CardBookEntry): LorebookCondition {
+    if (entry.use_regex) {
+        // Keys may be written as `/pattern/flags`.
+        const literal = /^\/(.+)\/([a-z]*)$/s.exec(key);
+        const regexPattern = literal?.[1] ?? key;
+        let regexFlags = literal?.[2] ?? "";
+        if (!entry.case_sensitive && !regexFlags.includes("i"))
+            regexFlags += "i";
+        return regexFlags
+            ? { type: "regex_match", regexPattern, regexFlags }
+            : { type: "regex_match", regexPattern };
+    }
+    if (entry.case_sensitive)
+        return { type: "regex_match", regexPattern: escapeRegExp(key) };
+    return { type: "plain_text_match", text: key };
+}
+
+/**
+ * Reports fields of the object which are not in `known`, as dropped.
+ */
+function reportUnknownFields(
+    value: Record<string, unknown>,
+    known: readonly string[],
+    path: string,
+    report: MigrationReport,
+) {
+    for (const [key, field] of Object.entries(value)) {
+        if (known.includes(key) || field === undefined) continue;
+        report.lossy(
+            toJSONPath([key], path),
+            "dropped",
+            "Field is not supported by the character spec",
+            { before: field },
+        );
+    }
+}
+
+/**
+ * Reports the value as dropped, if it's not empty.
+ */
+function reportDropped(
+    value: unknown,
+    path: string,
+    message: string,
+    report: MigrationReport,
+) {
+    const empty =
+        value === undefined ||
+        value === "" ||
+        (Array.isArray(value) && value.length === 0) ||
+        (typeof value === "object" &&
+            value !== null &&
+            Object.keys(value).length === 0);
+    if (!empty) report.lossy(path, "dropped", message, { before: value });
+}
+
+const handledEntryFields = [
+    "keys",
+    "content",
+    "enabled",
+    "insertion_order",
+    "case_sensitive",
+    "use_regex",
+    "constant",
+    "name",
+    "priority",
+    "id",
+    "comment",
+    "selective",
+    "secondary_keys",
+    "extensions",
+    "position",
+] as const;
+
+/**
+ * Converts the lorebook of the card.
+ */
+function importBook(
+    book: CardBook,
+    path: string,
+    report: MigrationReport,
+): Character["prompt"]["lorebook"] {
+    const usedIds = new Set<string>();
+    const data = book.entries.map((entry, i): LorebookEntry => {
+        const entryPath = toJSONPath(["entries", i], path);
+        let id = entry.id === undefined ? String(i) : String(entry.id);
+        if (usedIds.has(id)) {
+            report.info(
+                toJSONPath(["id"], entryPath),
+                "coerced",
+                "Duplicated ID was replaced",
+                { before: id, after: `${id}-${i}` },
+            );
+            id = `${id}-${i}`;
+        }
+        usedIds.add(id);
+
+        let condition: LorebookCondition[];
+        if (entry.constant) {
+            condition = [{ type: "always" }];
+            reportDropped(
+                entry.keys,
+                toJSONPath(["keys"], entryPath),
+                "Keys of constant entry are not used",
+                report,
+            );
+        } else {
+            condition = entry.keys.map((key) => keyToCondition(key, entry));
+        }
+        if (entry.selective)
+            reportDropped(
+                entry.secondary_keys,
+                toJSONPath(["secondary_keys"], entryPath),
+                "Secondary keys can't be combined with primary keys",
+                report,
+            );
+        if (entry.priority === undefined && entry.insertion_order !== 0)
+            report.info(
+                toJSONPath(["insertion_order"], entryPath),
+                "renamed",
+                "Insertion order is used as priority",
+            );
+        reportDropped(
+            entry.position,
+            toJSONPath(["position"], entryPath),
+            "Insertion position is not supported",
+            report,
+        );
+        reportDropped(
+            entry.extensions,
+            toJSONPath(["extensions"], entryPath),
+            "Extensions are not supported",
+            report,
+        );
+        reportUnknownFields(entry, handledEntryFields, entryPath, report);
+
+        return {
+            id,
+            name: entry.name || entry.comment || `Entry ${i + 1}`,
+            condition,
+            multipleConditionResolveStrategy: "any",
+            content: entry.content,
+            priority: entry.priority ?? entry.insertion_order,
+            enabled: entry.enabled,
+        };
+    });
+
+    let tokenLimit: number | undefined;
+    if (book.token_budget !== undefined) {
+        if (Number.isInteger(book.token_budget) && book.token_budget >= 1)
+            tokenLimit = book.token_budget;
+        else
+            report.lossy(
+                toJSONPath(["token_budget"], path),
+                "dropped",
+                "Token budget must be a positive integer",
+                { before: book.token_budget },
+            );
+    }
+    for (const key of [
+        "name",
+        "description",
+        "scan_depth",
+        "recursive_scanning",
+        "extensions",
+    ] as const)
+        reportDropped(
+            book[key],
+            toJSONPath([key], path),
+            "Field is not supported by the character spec",
+            report,
+        );
+    reportUnknownFields(
+        book,
+        [
+            "name",
+            "description",
+            "scan_depth",
+            "token_budget",
+            "recursive_scanning",
+            "extensions",
+            "entries",
+        ],
+        path,
+        report,
+    );
+
+    return {
+        config: tokenLimit === undefined ? {} : { tokenLimit },
+        data,
+    };
+}
+
+/**
+ * Converts the assets of a V3 card.
+ * @returns Converted assets, and the name of the main icon if any.
+ */
+function importAssets(
+    assets: CardAsset[],
+    image: Uint8Array<ArrayBuffer> | undefined,
+    path: string,
+    report: MigrationReport,
+): { assets: z.input<typeof AssetEntitySchema>[]; avatar?: string } {
+    const out: z.input<typeof AssetEntitySchema>[] = [];
+    const names = new Set<string>();
+    let avatar: string | undefined;
+
+    assets.forEach((asset, i) => {
+        const assetPath = toJSONPath([i], path);
+        const isDefault = asset.uri === "ccdefault:" && image !== undefined;
+        if (!isDefault && !/^(https?|data):/i.test(asset.uri)) {
+            // `embeded://` and `ccdefault:` without image can't be resolved from JSON.
+            report.lossy(
+                toJSONPath(["uri"], assetPath),
+                "unsupported",
+                "Asset URI can't be resolved",
+                { before: asset.uri },
+            );
+            return;
+        }
+        const ext = asset.ext.toLowerCase();
+        let name = ext ? `${asset.name}.${ext}` : asset.name;
+        if (names.has(name)) name = `${asset.type}-${i}-${name}`;
+        names.add(name);
+
+        const mimeType = isDefault ? "image/png" : mimeTypesByExtension[ext];
+        if (!mimeType)
+            report.info(
+                toJSONPath(["ext"], assetPath),
+                "defaulted",
+                "Unknown extension, MIME type is set to application/octet-stream",
+            );
+        out.push({
+            name,
+            mimeType: mimeType ?? "application/octet-stream",
+            data: isDefault ? image : asset.uri,
+        });
+        if (asset.type === "icon") {
+            if (avatar === undefined || asset.name === "main") avatar = name;
+        } else {
+            report.lossy(
+                toJSONPath(["type"], assetPath),
+                "dropped",
+                `Asset type "${asset.type}" is not kept`,
+            );
+        }
+    });
+
+    return avatar === undefined ? { assets: out } : { assets: out, avatar };
+}
+
+/**
+ * Joins `description`, `personality` and `scenario` of the card into a single prompt,
+ * similar to the default story string of SillyTavern.
+ */
+function joinPromptDescription(data: Card["data"]): string {
+    return [
+        data.description,
+        data.personality && `{{char}}'s personality: ${data.personality}`,
+        data.scenario && `Scenario: ${data.scenario}`,
+    ]
+        .filter(Boolean)
+        .join("\n\n");
+}
+
+const handledDataFields = [
+    "name",
+    "description",
+    "personality",
+    "scenario",
+    "first_mes",
+    "mes_example",
+    "creator_notes",
+    "system_prompt",
+    "post_history_instructions",
+    "alternate_greetings",
+    "character_book",
+    "tags",
+    "creator",
+    "character_version",
+    "extensions",
+    "assets",
+    "nickname",
+    "creator_notes_multilingual",
+    "source",
+    "group_only_greetings",
+    "creation_date",
+    "modification_date",
+] as const;
+
+/**
+ * Imports a Character Card V2 or V3 into a character.
+ * Fields without a place in the character spec, such as greetings, are added to the report.
+ * @param input The card, parsed from JSON.
+ * @param options Import options.
+ * @returns The imported character, validated by {@link CharacterSchema}, and the report.
+ * @throws {import("zod").ZodError} If the input is not a valid card.
+ */
+export function importCharacterCard(
+    input: unknown,
+    options: CardImportOptions = {},
+): CardImportResult {
+    const card = CardSchema.parse(input);
+    const { data } = card;
+    const report = new MigrationReport();
+    // Copied, since the schema only accepts ArrayBuffer-backed arrays.
+    const image = options.image && new Uint8Array(options.image);
+
+    const promptDescription = joinPromptDescription(data);
+    if (data.personality || data.scenario)
+        report.info(
+            "$.data.description",
+            "coerced",
+            "Description, personality and scenario are merged into the prompt description",
+        );
+    if (data.creator_notes)
+        report.info(
+            "$.data.creator_notes",
+            "renamed",
+            "Creator notes are used as the character description",
+        );
+    if (data.post_history_instructions)
+        report.info(
+            "$.data.post_history_instructions",
+            "renamed",
+            "Post history instructions are used as the author's note",
+        );
+
+    for (const [key, message] of [
+        ["system_prompt", "System prompt override is not supported"],
+        ["first_mes", "Greetings are not supported"],
+        ["alternate_greetings", "Greetings are not supported"],
+        ["mes_example", "Example messages are not supported"],
+        ["extensions", "Extensions are not supported"],
+    ] as const)
+        reportDropped(data[key], toJSONPath(["data", key]), message, report);
+
+    const lorebook = data.character_book
+        ? importBook(data.character_book, "$.data.character_book", report)
+        : {};
+
+    const metadata: Character["metadata"] = { license: "ARR" };
+    if (data.creator) metadata.author = data.creator;
+    if (data.character_version) metadata.version = data.character_version;
+    if (data.tags.length > 0) metadata.tags = data.tags;
+
+    let assets: z.input<typeof AssetEntitySchema>[] = [];
+    let avatarUrl: string | undefined;
+    if (card.spec === "chara_card_v3" && card.data.assets) {
+        const imported = importAssets(
+            card.data.assets,
+            image,
+            "$.data.assets",
+            report,
+        );
+        assets = imported.assets;
+        avatarUrl = imported.avatar;
+    }
+    if (avatarUrl === undefined && image) {
+        // Without an icon asset, the carrier image is the avatar.
+        avatarUrl = assets.some((asset) => asset.name === "main.png")
+            ? "icon-main.png"
+            : "main.png";
+        assets.push({ name: avatarUrl, mimeType: "image/png", data: image });
+    }
+    if (card.spec === "chara_card_v3") {
+        const v3 = card.data;
+        const [distributedOn, ...otherSources] = (v3.source ?? []).filter((s) =>
+            /^https?:/i.test(s),
+        );
+        if (distributedOn) metadata.distributedOn = distributedOn;
+        reportDropped(
+            otherSources,
+            "$.data.source",
+            "Only the first source URL is kept",
+            report,
+        );
+        for (const [key, message] of [
+            ["nickname", "Nickname is not supported"],
+            ["group_only_greetings", "Greetings are not supported"],
+            [
+                "creator_notes_multilingual",
+                "Multilingual creator notes are not supported",
+            ],
+            ["creation_date", "Creation date is not kept"],
+            ["modification_date", "Modification date is not kept"],
+        ] as const)
+            reportDropped(v3[key], toJSONPath(["data", key]), message, report);
+    }
+    reportUnknownFields(data, handledDataFields, "$.data", report);
+    report.info(
+        "$.metadata.license",
+        "defaulted",
+        "Cards don't declare a license, so ARR is assumed",
+    );
+
+    const character = CharacterSchema.parse({
+        specVersion: 0,
+        id: options.id ?? crypto.randomUUID(),
+        name: data.name,
+        description: data.creator_notes,
+        ...(avatarUrl === undefined ? {} : { avatarUrl }),
+        prompt: {
+            description: promptDescription,
+            ...(data.post_history_instructions
+                ? { authorsNote: data.post_history_instructions }
+                : {}),
+            lorebook,
+        },
+        executables: {},
+        metadata,
+        assets: { assets },
+    });
+    return { character, report };
+}
+
+/**
+ * The result of {@link exportCharacterCard}.
+ */
+export interface CardExportResult {
+    card: z.input<typeof CardV3Schema>;
+    /** Everything that was converted or can't be expressed in Character Card V3. */
+    report: MigrationReport;
+}
+
+/**
+ * A regex script of SillyTavern, stored in `extensions.regex_scripts` of the card.
+ */
+interface RegexScript {
+    id: string;
+    scriptName: string;
+    findRegex: string;
+    replaceString: string;
+    trimStrings: string[];
+    /** 1: user input, 2: AI output. */
+    placement: number[];
+    disabled: boolean;
+    markdownOnly: boolean;
+    promptOnly: boolean;
+    runOnEdit: boolean;
+    substituteRegex: boolean;
+    minDepth: null;
+    maxDepth: null;
+}
+
+/**
+ * How each replace hook stage is expressed as a regex script.
+ */
+const hookStagePlacement = {
+    input: { placement: [1], markdownOnly: false, promptOnly: false },
+    output: { placement: [2], markdownOnly: false, promptOnly: false },
+    display: { placement: [1, 2], markdownOnly: true, promptOnly: false },
+    request: { placement: [1, 2], markdownOnly: false, promptOnly: true },
+} as const;
+
+/**
+ * Converts a condition into a lorebook key.
+ * @returns The key, and whether it's a regex key.
+ */
+function conditionToKey(
+    condition: Exclude<LorebookCondition, { type: "always" }>,
+): { key: string; regex: boolean } {
+    if (condition.type === "regex_match")
+        return {
+            key: `/${condition.regexPattern}/${condition.regexFlags ?? ""}`,
+            regex: true,
+        };
+    return { key: condition.text, regex: false };
+}
+
+/**
+ * Converts the lorebook entry into a card lorebook entry.
+ */
+function exportBookEntry(
+    entry: LorebookEntry,
+    path: string,
+    report: MigrationReport,
+): z.input<typeof CardBookEntrySchema> {
+    const constant = entry.condition.some((c) => c.type === "always");
+    const keyed = entry.condition.flatMap((c) =>
+        c.type === "always" ? [] : [conditionToKey(c)],
+    );
+    const useRegex = keyed.some((k) => k.regex);
+    // `use_regex` applies to all keys of the entry, so plain keys are escaped.
+    const keys = keyed.map(({ key, regex }) =>
+        useRegex && !regex ? `/${escapeRegExp(key)}/i` : key,
+    );
+
+    if (entry.multipleConditionResolveStrategy === "all" && keyed.length > 1)
+        report.lossy(
+            toJSONPath(["multipleConditionResolveStrategy"], path),
+            "unsupported",
+            'Strategy "all" can\'t be expressed, entry activates on any key',
+            { before: "all", after: "any" },
+        );
+    if (constant && entry.multipleConditionResolveStrategy === "any")
+        reportDropped(
+            keys,
+            toJSONPath(["condition"], path),
+            "Keys of an always active entry are not used",
+            report,
+        );
+    if (constant && entry.multipleConditionResolveStrategy === "all")
+        report.info(
+            toJSONPath(["condition"], path),
+            "dropped",
+            '"always" condition is redundant with strategy "all"',
+        );
+
+    const isConstant =
+        constant &&
+        (entry.multipleConditionResolveStrategy === "any" ||
+            keyed.length === 0);
+    return {
+        keys,
+        content: entry.content,
+        extensions: {},
+        enabled: entry.enabled,
+        insertion_order: entry.priority ?? 0,
+        case_sensitive: false,
+        use_regex: useRegex,
+        constant: isConstant,
+        name: entry.name,
+        comment: entry.name,
+        id: entry.id,
+        ...(entry.priority === undefined ? {} : { priority: entry.priority }),
+    };
+}
+
+/**
+ * Converts the replace hooks into regex scripts of SillyTavern.
+ * Scripted hooks can't be expressed, and are reported.
+ */
+function exportReplaceHooks(
+    hooks: Character["executables"]["replaceHooks"],
+    report: MigrationReport,
+): RegexScript[] {
+    const scripts: RegexScript[] = [];
+    for (const stage of ["input", "output", "display", "request"] as const) {
+        const entries = hooks[stage]
+            .map((hook, i) => ({ hook, i }))
+            .sort((a, b) => b.hook.meta.priority - a.hook.meta.priority);
+        for (const { hook, i } of entries) {
+            const path = toJSONPath(
+                ["executables", "replaceHooks", stage, i],
+                "$",
+            );
+            if (
+                hook.meta.isInputPatternScripted ||
+                hook.meta.isOutputScripted
+            ) {
+                report.lossy(
+                    path,
+                    "unsupported",
+                    "Scripted replace hooks can't be expressed in Character Card V3",
+                    { before: hook },
+                );
+                continue;
+            }
+            scripts.push({
+                id: `arisutalk-${stage}-${i}`,
+                scriptName: `${stage} #${i + 1}`,
+                findRegex: hookToRegexLiteral(hook),
+                replaceString: hook.output,
+                trimStrings: [],
+                ...hookStagePlacement[stage],
+                placement: [...hookStagePlacement[stage].placement],
+                disabled: false,
+                runOnEdit: stage === "input" || stage === "output",
+                substituteRegex: false,
+                minDepth: null,
+                maxDepth: null,
+            });
+        }
+    }
+    if (scripts.length > 0)
+        report.info(
+            "$.executables.replaceHooks",
+            "coerced",
+            "Replace hooks are exported as SillyTavern regex scripts in extensions",
+        );
+    return scripts;
+}
+
+/**
+ * Converts the pattern of the replace hook into a regex literal string, e.g. `/foo/gi`.
+ */
+function hookToRegexLiteral(
+    hook: z.infer<typeof ReplaceHookEntitySchema>,
+): string {
+    if (hook.meta.type === "regex") return `/${hook.input}/${hook.meta.flag}`;
+    return `/${escapeRegExp(hook.input)}/g${hook.meta.caseSensitive ? "" : "i"}`;
+}
+
+/**
+ * Splits the asset name into base name and extension.
+ */
+function splitExtension(
+    name: string,
+    mimeType: string,
+): { name: string; ext: string } {
+    const dot = name.lastIndexOf(".");
+    if (dot > 0) return { name: name.slice(0, dot), ext: name.slice(dot + 1) };
+    const ext =
+        Object.entries(mimeTypesByExtension).find(
+            ([, mime]) => mime === mimeType,
+        )?.[0] ?? "";
+    return { name, ext };
+}
+
+/**
+ * Converts the assets into Character Card V3 assets.
+ * Binary assets are embedded as `data:` URLs. `local:` assets can't be resolved.
+ */
+function exportAssets(
+    character: Character,
+    report: MigrationReport,
+): CardAsset[] {
+    const out: CardAsset[] = [];
+    let hasIcon = false;
+
+    character.assets.assets.forEach((asset, i) => {
+        const path = toJSONPath(["assets", "assets", i], "$");
+        let uri: string;
+        if (asset.data instanceof Uint8Array) {
+            uri = toDataURL(asset.data, asset.mimeType);
+            report.info(
+                toJSONPath(["data"], path),
+                "coerced",
+                "Binary asset is embedded as a data: URL",
+            );
+        } else if (asset.data.startsWith("local:")) {
+            report.lossy(
+                toJSONPath(["data"], path),
+                "unsupported",
+                "local: assets must be resolved before exporting",
+                { before: asset.data },
+            );
+            return;
+        } else {
+            uri = asset.data;
+        }
+
+        const isAvatar = asset.name === character.avatarUrl;
+        hasIcon ||= isAvatar;
+        const split = splitExtension(asset.name, asset.mimeType);
+        out.push({
+            type: isAvatar ? "icon" : "other",
+            uri,
+            name: isAvatar ? "main" : split.name,
+            ext: split.ext,
+        });
+    });
+
+    if (!hasIcon)
+        out.unshift({
+            type: "icon",
+            uri: "ccdefault:",
+            name: "main",
+            ext: "png",
+        });
+    return out;
+}
+
+/**
+ * Exports the character into a Character Card V3.
+ * Things which can't be expressed, such as scripted replace hooks or
+ * `multipleConditionResolveStrategy: "all"`, are added to the report.
+ * Non-scripted replace hooks are exported as SillyTavern regex scripts in `extensions.regex_scripts`.
+ * @param character The character to export.
+ * @returns The card, ready to be serialized as JSON, and the report.
+ */
+export function exportCharacterCard(character: Character): CardExportResult {
+    const report = new MigrationReport();
+    const { prompt, metadata } = character;
+
+    const entries = prompt.lorebook.data.map((entry, i) =>
+        exportBookEntry(
+            entry,
+            toJSONPath(["prompt", "lorebook", "data", i], "$"),
+            report,
+        ),
+    );
+    const regexScripts = exportReplaceHooks(
+        character.executables.replaceHooks,
+        report,
+    );
+
+    if (metadata.license !== "ARR")
+        report.lossy(
+            "$.metadata.license",
+            "dropped",
+            "Character Card V3 has no license field",
+            { before: metadata.license },
+        );
+    reportDropped(
+        metadata.additionalInfo,
+        "$.metadata.additionalInfo",
+        "Character Card V3 has no field for additional information",
+        report,
+    );
+
+    const card: z.input<typeof CardV3Schema> = {
+        spec: "chara_card_v3",
+        spec_version: "3.0",
+        data: {
+            name: character.name,
+            description: prompt.description,
+            personality: "",
+            scenario: "",
+            first_mes: "",
+            mes_example: "",
+            creator_notes: character.description,
+            system_prompt: "",
+            post_history_instructions: prompt.authorsNote ?? "",
+            alternate_greetings: [],
+            group_only_greetings: [],
+            tags: metadata.tags ?? [],
+            creator: metadata.author ?? "",
+            character_version: metadata.version ?? "",
+            extensions:
+                regexScripts.length > 0 ? { regex_scripts: regexScripts } : {},
+            assets: exportAssets(character, report),
+            ...(metadata.distributedOn
+                ? { source: [metadata.distributedOn] }
+                : {}),
+            ...(entries.length > 0 || prompt.lorebook.config.tokenLimit
+                ? {
+                      character_book: {
+                          extensions: {},
+                          entries,
+                          ...(prompt.lorebook.config.tokenLimit
+                              ? {
+                                    token_budget:
+                                        prompt.lorebook.config.tokenLimit,
+                                }
+                              : {}),
+                      },
+                  }
+                : {}),
+        },
+    };
+    return { card, report };
+}
@@ -0,0 +1,451 @@
+/**
+ * @fileoverview Minimal CBOR (RFC 8949) codec used by the transport format.
+ * Only covers the data model of the character spec: numbers, strings,
+ * binary data, booleans, null, arrays and plain objects with string keys.
+ */
+
+/**
+ * Thrown when a value can't be encoded, or the input is not valid CBOR.
+ */
+export class CBORError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "CBORError";
+    }
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder("utf-8", { fatal: true });
+
+const MAJOR = {
+    unsigned: 0,
+    negative: 1,
+    bytes: 2,
+    text: 3,
+    array: 4,
+    map: 5,
+    tag: 6,
+    simple: 7,
+} as const;
+
+/**
+ * Growable byte buffer for encoding.
+ */
+class Writer {
+    private buffer = new Uint8Array(256);
+    private view = new DataView(this.buffer.buffer);
+    private length = 0;
+
+    private reserve(size: number) {
+        if (this.length + size <= this.buffer.length) return;
+        let capacity = this.buffer.length * 2;
+        while (capacity < this.length + size) capacity *= 2;
+        const next = new Uint8Array(capacity);
+        next.set(this.buffer.subarray(0, this.length));
+        this.buffer = next;
+        this.view = new DataView(next.buffer);
+    }
+
+    uint8(value: number) {
+        this.reserve(1);
+        this.view.setUint8(this.length, value);
+        this.length += 1;
+    }
+
+    uint16(value: number) {
+        this.reserve(2);
+        this.view.setUint16(this.length, value);
+        this.length += 2;
+    }
+
+    uint32(value: number) {
+        this.reserve(4);
+        this.view.setUint32(this.length, value);
+        this.length += 4;
+    }
+
+    uint64(value: number) {
+        this.reserve(8);
+        this.view.setBigUint64(this.length, BigInt(value));
+        this.length += 8;
+    }
+
+    float64(value: number) {
+        this.reserve(8);
+        this.view.setFloat64(this.length, value);
+        this.length += 8;
+    }
+
+    bytes(value: Uint8Array) {
+        this.reserve(value.length);
+        this.buffer.set(value, this.length);
+        this.length += value.length;
+    }
+
+    result(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+}
+
+function writeHead(writer: Writer, major: number, argument: number) {
+    const type = major << 5;
+    if (argument < 24) {
+        writer.uint8(type | argument);
+    } else if (argument <= 0xff) {
+        writer.uint8(type | 24);
+        writer.uint8(argument);
+    } else if (argument <= 0xffff) {
+        writer.uint8(type | 25);
+        writer.uint16(argument);
+    } else if (argument <= 0xffffffff) {
+        writer.uint8(type | 26);
+        writer.uint32(argument);
+    } else {
+        writer.uint8(type | 27);
+        writer.uint64(argument);
+    }
+}
+
+function isPlainObject(value: object): value is Record<string, unknown> {
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Orders map keys by their encoded bytes, as the deterministic encoding of RFC 8949 §4.2.1.
+ * Since all keys are text strings, it's the UTF-8 length first, then the UTF-8 bytes.
+ */
+function compareKeys(a: Uint8Array, b: Uint8Array): number {
+    if (a.length !== b.length) return a.length - b.length;
+    for (let i = 0; i < a.length; i++)
+        if (a[i] !== b[i]) return (a[i] as number) - (b[i] as number);
+    return 0;
+}
+
+function writeValue(
+    writer: Writer,
+    value: unknown,
+    path: string,
+    canonical: boolean,
+) {
+    switch (typeof value) {
+        case "number":
+            if (Number.isSafeInteger(value)) {
+                if (value >= 0) writeHead(writer, MAJOR.unsigned, value);
+                else writeHead(writer, MAJOR.negative, -1 - value);
+            } else {
+                writer.uint8((MAJOR.simple << 5) | 27);
+                writer.float64(value);
+            }
+            return;
+        case "string": {
+            const encoded = textEncoder.encode(value);
+            writeHead(writer, MAJOR.text, encoded.length);
+            writer.bytes(encoded);
+            return;
+        }
+        case "boolean":
+            writer.uint8((MAJOR.simple << 5) | (value ? 21 : 20));
+            return;
+        case "undefined":
+            writer.uint8((MAJOR.simple << 5) | 23);
+            return;
+        case "object": {
+            if (value === null) {
+                writer.uint8((MAJOR.simple << 5) | 22);
+                return;
+            }
+            if (value instanceof Uint8Array) {
+                writeHead(writer, MAJOR.bytes, value.length);
+                writer.bytes(value);
+                return;
+            }
+            if (Array.isArray(value)) {
+                writeHead(writer, MAJOR.array, value.length);
+                value.forEach((item, i) => {
+                    writeValue(writer, item, `${path}[${i}]`, canonical);
+                });
+                return;
+            }
+            if (isPlainObject(value)) {
+                // Like JSON, keys with `undefined` value are omitted.
+                const entries = Object.entries(value)
+                    .filter(([, v]) => v !== undefined)
+                    .map(([key, item]) => ({
+                        key,
+                        encoded: textEncoder.encode(key),
+                        item,
+                    }));
+                if (canonical)
+                    entries.sort((a, b) => compareKeys(a.encoded, b.encoded));
+                writeHead(writer, MAJOR.map, entries.length);
+                for (const { key, encoded, item } of entries) {
+                    writeHead(writer, MAJOR.text, encoded.length);
+                    writer.bytes(encoded);
+                    writeValue(writer, item, `${path}.${key}`, canonical);
+                }
+                return;
+            }
+            break;
+        }
+    }
+    throw new CBORError(
+        `Unsupported value at ${path || "<root>"}: ${Object.prototype.toString.call(value)}`,
+    );
+}
+
+/**
+ * Options for {@link encodeCBOR}.
+ */
+export interface EncodeOptions {
+    /**
+     * Sorts map keys by their encoded bytes, so that equal values always have the same
+     * encoding regardless of the key order. Used for signatures. Default is false,
+     * which keeps the insertion order.
+     */
+    canonical?: boolean;
+}
+
+/**
+ * Encodes a value into CBOR.
+ * Object keys with `undefined` value are omitted, same as `JSON.stringify`.
+ * @param value The value to encode. Plain objects, arrays, strings, numbers, booleans, null and Uint8Array are supported.
+ * @param options Encoding options.
+ * @returns The CBOR encoded bytes.
+ * @throws {CBORError} If the value contains unsupported types, such as `Date` or `bigint`.
+ */
+export function encodeCBOR(
+    value: unknown,
+    options: EncodeOptions = {},
+): Uint8Array {
+    const writer = new Writer();
+    writeValue(writer, value, "", options.canonical ?? false);
+    return writer.result();
+}
+
+/**
+ * Sequential reader over CBOR input.
+ */
+class Reader {
+    private offset = 0;
+    private readonly view: DataView;
+
+    constructor(private readonly input: Uint8Array) {
+        this.view = new DataView(
+            input.buffer,
+            input.byteOffset,
+            input.byteLength,
+        );
+    }
+
+    get done() {
+        return this.offset >= this.input.length;
+    }
+
+    private ensure(size: number) {
+        if (this.offset + size > this.input.length)
+            throw new CBORError("Unexpected end of CBOR input");
+    }
+
+    uint8() {
+        this.ensure(1);
+        const value = this.view.getUint8(this.offset);
+        this.offset += 1;
+        return value;
+    }
+
+    peek() {
+        this.ensure(1);
+        return this.view.getUint8(this.offset);
+    }
+
+    uint16() {
+        this.ensure(2);
+        const value = this.view.getUint16(this.offset);
+        this.offset += 2;
+        return value;
+    }
+
+    uint32() {
+        this.ensure(4);
+        const value = this.view.getUint32(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    uint64() {
+        this.ensure(8);
+        const value = this.view.getBigUint64(this.offset);
+        this.offset += 8;
+        if (value > BigInt(Number.MAX_SAFE_INTEGER))
+            throw new CBORError("CBOR integer exceeds safe integer range");
+        return Number(value);
+    }
+
+    float16() {
+        const half = this.uint16();
+        const exponent = (half >> 10) & 0x1f;
+        const fraction = half & 0x3ff;
+        const sign = half & 0x8000 ? -1 : 1;
+        if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+        if (exponent === 0x1f) return fraction ? Number.NaN : sign * Infinity;
+        return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+    }
+
+    float32() {
+        this.ensure(4);
+        const value = this.view.getFloat32(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    float64() {
+        this.ensure(8);
+        const value = this.view.getFloat64(this.offset);
+        this.offset += 8;
+        return value;
+    }
+
+    bytes(size: number) {
+        this.ensure(size);
+        const value = this.input.slice(this.offset, this.offset + size);
+        this.offset += size;
+        return value;
+    }
+}
+
+const BREAK = Symbol("break");
+
+function readArgument(reader: Reader, info: number): number {
+    if (info < 24) return info;
+    switch (info) {
+        case 24:
+            return reader.uint8();
+        case 25:
+            return reader.uint16();
+        case 26:
+            return reader.uint32();
+        case 27:
+            return reader.uint64();
+    }
+    throw new CBORError(`Invalid CBOR additional info: ${info}`);
+}
+
+function readChunks(reader: Reader, major: number, info: number): Uint8Array {
+    if (info !== 31) return reader.bytes(readArgument(reader, info));
+    // Indefinite length: concatenate definite-length chunks until break.
+    const chunks: Uint8Array[] = [];
+    while (reader.peek() !== 0xff) {
+        const head = reader.uint8();
+        if (head >> 5 !== major || (head & 0x1f) === 31)
+            throw new CBORError("Invalid chunk in indefinite-length string");
+        chunks.push(reader.bytes(readArgument(reader, head & 0x1f)));
+    }
+    reader.uint8();
+    const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        out.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return out;
+}
+
+function readValue(reader: Reader, depth: number): unknown {
+    if (depth > 512) throw new CBORError("CBOR input is nested too deeply");
+    const head = reader.uint8();
+    const major = head >> 5;
+    const info = head & 0x1f;
+
+    switch (major) {
+        case MAJOR.unsigned:
+            return readArgument(reader, info);
+        case MAJOR.negative:
+            return -1 - readArgument(reader, info);
+        case MAJOR.bytes:
+            return readChunks(reader, major, info);
+        case MAJOR.text:
+            try {
+                return textDecoder.decode(readChunks(reader, major, info));
+            } catch (e) {
+                if (e instanceof CBORError) throw e;
+                throw new CBORError("Invalid UTF-8 in CBOR text string");
+            }
+        case MAJOR.array: {
+            const out: unknown[] = [];
+            if (info === 31) {
+                for (;;) {
+                    const item = readValue(reader, depth + 1);
+                    if (item === BREAK) break;
+                    out.push(item);
+                }
+            } else {
+                const length = readArgument(reader, info);
+                for (let i = 0; i < length; i++)
+                    out.push(readItem(reader, depth + 1));
+            }
+            return out;
+        }
+        case MAJOR.map: {
+            const out: Record<string, unknown> = {};
+            const length = info === 31 ? Infinity : readArgument(reader, info);
+            for (let i = 0; i < length; i++) {
+                const key = readValue(reader, depth + 1);
+                if (key === BREAK && length === Infinity) break;
+                if (typeof key !== "string")
+                    throw new CBORError("CBOR map keys must be text strings");
+                Object.defineProperty(out, key, {
+                    value: readItem(reader, depth + 1),
+                    enumerable: true,
+                    writable: true,
+                    configurable: true,
+                });
+            }
+            return out;
+        }
+        case MAJOR.tag:
+            // Tags are semantic hints only; the tagged item is returned as-is.
+            readArgument(reader, info);
+            return readItem(reader, depth + 1);
+    }
+
+    switch (info) {
+        case 20:
+            return false;
+        case 21:
+            return true;
+        case 22:
+            return null;
+        case 23:
+            return undefined;
+        case 25:
+            return reader.float16();
+        case 26:
+            return reader.float32();
+        case 27:
+            return reader.float64();
+        case 31:
+            return BREAK;
+    }
+    throw new CBORError(`Unsupported CBOR simple value: ${info}`);
+}
+
+function readItem(reader: Reader, depth: number): unknown {
+    const value = readValue(reader, depth);
+    if (value === BREAK) throw new CBORError("Unexpected CBOR break code");
+    return value;
+}
+
+/**
+ * Decodes CBOR bytes into a value.
+ * Byte strings are decoded as `Uint8Array`, maps as plain objects.
+ * @param input The CBOR encoded bytes. Must contain exactly one data item.
+ * @returns The decoded value.
+ * @throws {CBORError} If the input is malformed or uses unsupported features, such as non-string map keys.
+ */
+export function decodeCBOR(input: Uint8Array): unknown {
+    const reader = new Reader(input);
+    const value = readItem(reader, 0);
+    if (!reader.done) throw new CBORError("Trailing bytes after CBOR item");
+    return value;
+}
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Format sniffing for files which may contain a character.
+ */
+import {
+    type EnvelopeHeader,
+    hasEnvelopeMagic,
+    readEnvelopeHeader,
+} from "@/envelope";
+import {
+    isPNG,
+    PNG_KEYWORDS,
+    type PNGCharacterFormat,
+    readPNGKeywords,
+} from "@/png";
+
+/**
+ * The result of {@link detectFormat}.
+ * `parser` names the function (or schema) which should be used to parse the data.
+ */
+export type DetectedFormat =
+    | {
+          /** ArisuTalk transport envelope. */
+          format: "arisutalk";
+          header: EnvelopeHeader;
+          parser: "importCharacter";
+      }
+    | {
+          /** ArisuTalk character as plain JSON. */
+          format: "json";
+          specVersion: number;
+          parser: "parseAnyCharacter";
+      }
+    | {
+          /** Character Card V2 or V3 as JSON. */
+          format: "ccv2" | "ccv3";
+          parser: "importCharacterCard";
+      }
+    | {
+          /** PNG image with an embedded character. */
+          format: "png";
+          /** Format of the embedded character. If more than one is embedded, the preferred one. */
+          embedded: PNGCharacterFormat;
+          parser: "extractCharacterFromPNG";
+      }
+    | {
+          /** Not recognized, or recognized but broken. */
+          format: "unknown";
+          /** Why the data was not recognized. */
+          reason: string;
+          parser: null;
+      };
+
+const textDecoder = new TextDecoder("utf-8", { fatal: true });
+
+/**
+ * Parses the bytes as a JSON object.
+ * @param bytes The bytes to parse.
+ * @returns The parsed object, or null if it's not a JSON object.
+ */
+function parseJSONObject(bytes: Uint8Array): Record<string, unknown> | null {
+    let text: string;
+    try {
+        text = textDecoder.decode(bytes);
+    } catch {
+        return null;
+    }
+    // TextDecoder already strips the BOM.
+    if (!text.trimStart().startsWith("{")) return null;
+    try {
+        const parsed: unknown = JSON.parse(text);
+        return typeof parsed === "object" &&
+            parsed !== null &&
+            !Array.isArray(parsed)
+            ? (parsed as Record<string, unknown>)
+            : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Detects the format of the file, and reports which parser applies.
+ * Only the header is validated. The data itself may still be invalid.
+ * @param bytes The file content.
+ * @returns The detected format.
+ */
+export function detectFormat(bytes: Uint8Array): DetectedFormat {
+    if (hasEnvelopeMagic(bytes)) {
+        try {
+            return {
+                format: "arisutalk",
+                header: readEnvelopeHeader(bytes),
+                parser: "importCharacter",
+            };
+        } catch (e) {
+            return {
+                format: "unknown",
+                reason: e instanceof Error ? e.message : String(e),
+                parser: null,
+            };
+        }
+    }
+
+    if (isPNG(bytes)) {
+        let keywords: string[];
+        try {
+            keywords = readPNGKeywords(bytes);
+        } catch (e) {
+            return {
+                format: "unknown",
+                reason: e instanceof Error ? e.message : String(e),
+                parser: null,
+            };
+        }
+        const embedded = (["arisutalk", "ccv3", "ccv2"] as const).find(
+            (format) => keywords.includes(PNG_KEYWORDS[format]),
+        );
+        if (embedded)
+            return {
+                format: "png",
+                embedded,
+                parser: "extractCharacterFromPNG",
+            };
+        return {
+            format: "unknown",
+            reason: "PNG without an embedded character",
+            parser: null,
+        };
+    }
+
+    const json = parseJSONObject(bytes);
+    if (json) {
+        if (json.spec === "chara_card_v2" || json.spec === "chara_card_v3")
+            return {
+                format: json.spec === "chara_card_v2" ? "ccv2" : "ccv3",
+                parser: "importCharacterCard",
+            };
+        if (typeof json.specVersion === "number")
+            return {
+                format: "json",
+                specVersion: json.specVersion,
+                parser: "parseAnyCharacter",
+            };
+        return {
+            format: "unknown",
+            reason: "JSON object without known character fields",
+            parser: null,
+        };
+    }
+
+    return {
+        format: "unknown",
+        reason: "No known signature found",
+        parser: null,
+    };
+}
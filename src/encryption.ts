@@ -0,0 +1,213 @@
+/**
+ * @fileoverview Password-based encryption of the transport payload, for private exports.
+ * The key is derived with PBKDF2-SHA-256, and the payload is encrypted with AES-256-GCM.
+ *
+ * | Offset | Size | Field                                                 |
+ * | ------ | ---- | ----------------------------------------------------- |
+ * | 0      | 16   | Salt of PBKDF2                                        |
+ * | 16     | 4    | Iterations of PBKDF2, big-endian                      |
+ * | 20     | 12   | IV of AES-GCM                                         |
+ * | 32     | 16   | Password check, derived together with the key         |
+ * | 48     | ...  | Ciphertext, with the 16 bytes authentication tag      |
+ *
+ * The password check tells a wrong password apart from corrupted data. It costs
+ * as much as deriving the key, so it doesn't make guessing any cheaper.
+ */
+
+/**
+ * Default iterations of PBKDF2-SHA-256, as recommended by OWASP.
+ */
+export const PBKDF2_ITERATIONS = 600_000;
+
+/**
+ * Upper bound of the iterations accepted on decryption, so a crafted file can't hang the importer.
+ */
+const MAX_ITERATIONS = 10_000_000;
+
+const SALT_SIZE = 16;
+const IV_SIZE = 12;
+const CHECK_SIZE = 16;
+const KEY_SIZE = 32;
+const PREFIX_SIZE = SALT_SIZE + 4 + IV_SIZE + CHECK_SIZE;
+
+/**
+ * Thrown when the encrypted data can't be decrypted.
+ */
+export class DecryptionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "DecryptionError";
+    }
+}
+
+/**
+ * Thrown when the data is encrypted, but no password is given. Ask the user for one.
+ */
+export class PasswordRequiredError extends DecryptionError {
+    constructor(message: string) {
+        super(message);
+        this.name = "PasswordRequiredError";
+    }
+}
+
+/**
+ * Thrown when the password is wrong.
+ */
+export class WrongPasswordError extends DecryptionError {
+    constructor(message: string) {
+        super(message);
+        this.name = "WrongPasswordError";
+    }
+}
+
+/**
+ * Thrown when the password is right, but the data is truncated or modified.
+ */
+export class CorruptedDataError extends DecryptionError {
+    constructor(message: string) {
+        super(message);
+        this.name = "CorruptedDataError";
+    }
+}
+
+/**
+ * Options for {@link encryptData}.
+ */
+export interface EncryptOptions {
+    /** Iterations of PBKDF2. Default is {@link PBKDF2_ITERATIONS}. */
+    iterations?: number;
+}
+
+/**
+ * Derives the AES-GCM key and the password check from the password.
+ */
+async function deriveKey(
+    password: string,
+    salt: Uint8Array,
+    iterations: number,
+): Promise<{ key: CryptoKey; check: Uint8Array }> {
+    const material = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(password.normalize("NFC")),
+        "PBKDF2",
+        false,
+        ["deriveBits"],
+    );
+    const bits = new Uint8Array(
+        await crypto.subtle.deriveBits(
+            {
+                name: "PBKDF2",
+                hash: "SHA-256",
+                salt: salt as Uint8Array<ArrayBuffer>,
+                iterations,
+            },
+            material,
+            (KEY_SIZE + CHECK_SIZE) * 8,
+        ),
+    );
+    const key = await crypto.subtle.importKey(
+        "raw",
+        bits.subarray(0, KEY_SIZE),
+        "AES-GCM",
+        false,
+        ["encrypt", "decrypt"],
+    );
+    return { key, check: bits.slice(KEY_SIZE) };
+}
+
+/**
+ * Encrypts the data with the password.
+ * @param data The data to encrypt.
+ * @param password The password. Normalized to NFC, so it's typed the same on any platform.
+ * @param additionalData Data which is authenticated but not encrypted, e.g. the envelope header.
+ * @param options Encryption options.
+ * @returns The salt, parameters and ciphertext, as described in the file overview.
+ * @throws {RangeError} If the iterations are not a positive integer within the accepted range.
+ */
+export async function encryptData(
+    data: Uint8Array,
+    password: string,
+    additionalData: Uint8Array,
+    options: EncryptOptions = {},
+): Promise<Uint8Array> {
+    const iterations = options.iterations ?? PBKDF2_ITERATIONS;
+    if (
+        !Number.isInteger(iterations) ||
+        iterations < 1 ||
+        iterations > MAX_ITERATIONS
+    )
+        throw new RangeError(`Invalid PBKDF2 iterations: ${iterations}`);
+
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_SIZE));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_SIZE));
+    const { key, check } = await deriveKey(password, salt, iterations);
+    const ciphertext = new Uint8Array(
+        await crypto.subtle.encrypt(
+            {
+                name: "AES-GCM",
+                iv,
+                additionalData: additionalData as Uint8Array<ArrayBuffer>,
+            },
+            key,
+            data as Uint8Array<ArrayBuffer>,
+        ),
+    );
+
+    const out = new Uint8Array(PREFIX_SIZE + ciphertext.length);
+    out.set(salt, 0);
+    new DataView(out.buffer).setUint32(SALT_SIZE, iterations);
+    out.set(iv, SALT_SIZE + 4);
+    out.set(check, SALT_SIZE + 4 + IV_SIZE);
+    out.set(ciphertext, PREFIX_SIZE);
+    return out;
+}
+
+/**
+ * Decrypts the data encrypted by {@link encryptData}.
+ * @param data The encrypted data.
+ * @param password The password.
+ * @param additionalData The same additional data given on encryption.
+ * @returns The decrypted data.
+ * @throws {WrongPasswordError} If the password is wrong.
+ * @throws {CorruptedDataError} If the data is truncated or modified, including the additional data.
+ */
+export async function decryptData(
+    data: Uint8Array,
+    password: string,
+    additionalData: Uint8Array,
+): Promise<Uint8Array> {
+    if (data.length < PREFIX_SIZE)
+        throw new CorruptedDataError("Encrypted data is truncated");
+    const iterations = new DataView(
+        data.buffer,
+        data.byteOffset,
+        data.byteLength,
+    ).getUint32(SALT_SIZE);
+    if (iterations < 1 || iterations > MAX_ITERATIONS)
+        throw new CorruptedDataError(
+            `Invalid PBKDF2 iterations: ${iterations}`,
+        );
+
+    const salt = data.subarray(0, SALT_SIZE);
+    const iv = data.slice(SALT_SIZE + 4, SALT_SIZE + 4 + IV_SIZE);
+    const stored = data.subarray(SALT_SIZE + 4 + IV_SIZE, PREFIX_SIZE);
+    const { key, check } = await deriveKey(password, salt, iterations);
+    if (check.some((b, i) => b !== stored[i]))
+        throw new WrongPasswordError("Wrong password");
+
+    try {
+        return new Uint8Array(
+            await crypto.subtle.decrypt(
+                {
+                    name: "AES-GCM",
+                    iv,
+                    additionalData: additionalData as Uint8Array<ArrayBuffer>,
+                },
+                key,
+                data.subarray(PREFIX_SIZE) as Uint8Array<ArrayBuffer>,
+            ),
+        );
+    } catch {
+        throw new CorruptedDataError("Encrypted data is corrupted");
+    }
+}
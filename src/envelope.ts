@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Binary envelope wrapped around the transport payload.
+ *
+ * Layout (all integers are big-endian):
+ * | Offset | Size | Field                                   |
+ * | ------ | ---- | --------------------------------------- |
+ * | 0      | 4    | Magic, `ARTC` in ASCII                  |
+ * | 4      | 1    | Container version                       |
+ * | 5      | 1    | Compression codec, see {@link CODECS}   |
+ * | 6      | 1    | Flags, see {@link ENVELOPE_FLAGS}       |
+ * | 7      | 2    | `specVersion` of the character          |
+ * | 9      | 96   | Signature block, only if `signed`       |
+ * | ...    | ...  | Compressed CBOR payload                 |
+ *
+ * The signature block is the raw Ed25519 public key (32 bytes) followed by the signature (64 bytes).
+ */
+
+/**
+ * Magic bytes at the start of every envelope. `ARTC` in ASCII.
+ */
+export const ENVELOPE_MAGIC = Object.freeze([0x41, 0x52, 0x54, 0x43] as const);
+
+/**
+ * Latest container version. Bumped when the envelope layout changes.
+ */
+export const CONTAINER_VERSION = 1;
+
+/**
+ * Size of the envelope header, in bytes.
+ */
+export const HEADER_SIZE = 9;
+
+/**
+ * Compression codecs which can be used for the payload, by their ID in the header.
+ * Names other than `none` are {@link CompressionFormat} of `CompressionStream`.
+ */
+export const CODECS = Object.freeze({
+    0: "none",
+    1: "gzip",
+    2: "deflate",
+    3: "deflate-raw",
+} as const);
+
+/**
+ * Compression codec of the payload.
+ */
+export type Codec = (typeof CODECS)[keyof typeof CODECS];
+
+/**
+ * Bits of the flags byte. Other bits are reserved, and must be 0.
+ * - `signed`: The header is followed by the signature block.
+ * - `encrypted`: The payload is encrypted with a password. See `encryption.ts`.
+ */
+export const ENVELOPE_FLAGS = Object.freeze({
+    signed: 0b01,
+    encrypted: 0b10,
+} as const);
+
+/**
+ * Size of the signature block, in bytes.
+ */
+export const SIGNATURE_BLOCK_SIZE = 96;
+
+/**
+ * The signature block of a signed envelope.
+ */
+export interface EnvelopeSignature {
+    /** Raw Ed25519 public key of the signer, 32 bytes. */
+    publicKey: Uint8Array;
+    /** Ed25519 signature, 64 bytes. */
+    signature: Uint8Array;
+}
+
+/**
+ * The decoded envelope header.
+ */
+export interface EnvelopeHeader {
+    /** Container version. See {@link CONTAINER_VERSION}. */
+    containerVersion: number;
+    /** Compression codec of the payload. */
+    codec: Codec;
+    /** Flags, see {@link ENVELOPE_FLAGS}. */
+    flags: number;
+    /** `specVersion` of the wrapped character. */
+    specVersion: number;
+}
+
+/**
+ * Thrown when the envelope is malformed or unsupported.
+ */
+export class EnvelopeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "EnvelopeError";
+    }
+}
+
+function codecId(codec: Codec): number {
+    const entry = Object.entries(CODECS).find(([, name]) => name === codec);
+    if (!entry) throw new EnvelopeError(`Unknown codec: ${codec}`);
+    return Number(entry[0]);
+}
+
+/**
+ * Checks if the bytes start with {@link ENVELOPE_MAGIC}.
+ * @param bytes The bytes to check.
+ * @returns True if the magic bytes match.
+ */
+export function hasEnvelopeMagic(bytes: Uint8Array): boolean {
+    return ENVELOPE_MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Reads the envelope header without touching the payload.
+ * @param bytes The envelope bytes.
+ * @returns The decoded header.
+ * @throws {EnvelopeError} If the magic doesn't match, the input is truncated, or the container version or codec is unknown.
+ */
+export function readEnvelopeHeader(bytes: Uint8Array): EnvelopeHeader {
+    if (bytes.length < HEADER_SIZE)
+        throw new EnvelopeError("Input is too short to be an envelope");
+    if (!hasEnvelopeMagic(bytes))
+        throw new EnvelopeError("Magic bytes don't match");
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, HEADER_SIZE);
+    const containerVersion = view.getUint8(4);
+    if (containerVersion > CONTAINER_VERSION || containerVersion === 0)
+        throw new EnvelopeError(
+            `Unsupported container version: ${containerVersion}`,
+        );
+    const id = view.getUint8(5);
+    const codec = CODECS[id as keyof typeof CODECS];
+    if (!codec) throw new EnvelopeError(`Unknown codec ID: ${id}`);
+
+    return {
+        containerVersion,
+        codec,
+        flags: view.getUint8(6),
+        specVersion: view.getUint16(7),
+    };
+}
+
+/**
+ * Wraps the payload with the envelope header.
+ * @param header The header to write. Container version is always {@link CONTAINER_VERSION}.
+ * @param payload The compressed payload.
+ * @param signature The signature block. Required if and only if the `signed` flag is set.
+ * @returns The envelope bytes.
+ * @throws {EnvelopeError} If the signature doesn't agree with the `signed` flag, or has a wrong size.
+ */
+export function writeEnvelope(
+    header: Omit<EnvelopeHeader, "containerVersion">,
+    payload: Uint8Array,
+    signature?: EnvelopeSignature,
+): Uint8Array {
+    const signed = (header.flags & ENVELOPE_FLAGS.signed) !== 0;
+    if (signed !== (signature !== undefined))
+        throw new EnvelopeError(
+            signed
+                ? "The signed flag is set, but no signature is given"
+                : "A signature is given, but the signed flag is not set",
+        );
+    if (
+        signature &&
+        (signature.publicKey.length !== 32 || signature.signature.length !== 64)
+    )
+        throw new EnvelopeError("Invalid signature block size");
+
+    const offset = HEADER_SIZE + (signed ? SIGNATURE_BLOCK_SIZE : 0);
+    const out = new Uint8Array(offset + payload.length);
+    const view = new DataView(out.buffer);
+    out.set(ENVELOPE_MAGIC, 0);
+    view.setUint8(4, CONTAINER_VERSION);
+    view.setUint8(5, codecId(header.codec));
+    view.setUint8(6, header.flags);
+    view.setUint16(7, header.specVersion);
+    if (signature) {
+        out.set(signature.publicKey, HEADER_SIZE);
+        out.set(signature.signature, HEADER_SIZE + 32);
+    }
+    out.set(payload, offset);
+    return out;
+}
+
+/**
+ * Splits the envelope into its header, signature block and payload.
+ * @param bytes The envelope bytes.
+ * @returns The decoded header, the signature block if signed, and the (still compressed) payload.
+ * @throws {EnvelopeError} See {@link readEnvelopeHeader}. Also if the signature block is truncated.
+ */
+export function readEnvelope(bytes: Uint8Array): {
+    header: EnvelopeHeader;
+    signature?: EnvelopeSignature;
+    payload: Uint8Array;
+} {
+    const header = readEnvelopeHeader(bytes);
+    if (!(header.flags & ENVELOPE_FLAGS.signed))
+        return { header, payload: bytes.subarray(HEADER_SIZE) };
+
+    const offset = HEADER_SIZE + SIGNATURE_BLOCK_SIZE;
+    if (bytes.length < offset)
+        throw new EnvelopeError("Signature block is truncated");
+    return {
+        header,
+        signature: {
+            publicKey: bytes.slice(HEADER_SIZE, HEADER_SIZE + 32),
+            signature: bytes.slice(HEADER_SIZE + 32, offset),
+        },
+        payload: bytes.subarray(offset),
+    };
+}
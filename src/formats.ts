@@ -0,0 +1,403 @@
+/**
+ * @fileoverview Renderers which serialize prompt messages for different backends.
+ * API formats (OpenAI, Anthropic) produce JSON message arrays, and instruct formats
+ * (ChatML, Llama 3, Gemma) produce raw strings for local models.
+ *
+ * Files which a format can't represent are handled by {@link UnsupportedFileHandling}.
+ * Each format declares its default in `unsupportedFiles`, and it can be overridden per call.
+ */
+import type { PromptMessage, PromptRole } from "@/prompt";
+import type { Message } from "@/types/v0/Character/Message";
+import { fromDataURL, toBase64, toDataURL } from "@/utils";
+
+/**
+ * A message to render. Either a built prompt message, or a stored message with text or file content.
+ */
+export type RenderableMessage = PromptMessage | Message;
+
+/**
+ * How to handle a file which the format can't represent.
+ * - `omit`: Drop the file silently.
+ * - `placeholder`: Replace the file with the text `[file: <MIME type>]`.
+ * - `error`: Throw {@link ChatFormatError}.
+ */
+export type UnsupportedFileHandling = "omit" | "placeholder" | "error";
+
+/**
+ * Options for {@link ChatFormat.render}.
+ */
+export interface RenderOptions {
+    /** Overrides {@link ChatFormat.unsupportedFiles} of the format. */
+    unsupportedFiles?: UnsupportedFileHandling;
+    /**
+     * If true, instruct formats end with the header of the assistant turn,
+     * so the model continues as the assistant. Default is true. Ignored by API formats.
+     */
+    addGenerationPrompt?: boolean;
+}
+
+/**
+ * A chat format.
+ */
+export interface ChatFormat<T> {
+    readonly name: string;
+    /**
+     * How files are handled when the format can't represent them, unless overridden.
+     * Instruct formats can't represent any file.
+     */
+    readonly unsupportedFiles: UnsupportedFileHandling;
+    /**
+     * Renders the messages.
+     * @param messages Messages to render, oldest first.
+     * @param options Render options.
+     * @throws {ChatFormatError} If a file can't be represented and the handling is `error`.
+     */
+    render(messages: readonly RenderableMessage[], options?: RenderOptions): T;
+}
+
+/**
+ * Thrown when a message can't be rendered in the format.
+ */
+export class ChatFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ChatFormatError";
+    }
+}
+
+/**
+ * A normalized part of message content.
+ */
+type Part =
+    | { type: "text"; text: string }
+    | { type: "file"; data: string | Uint8Array; mimeType: string };
+
+/**
+ * Normalizes the message into a role and its parts.
+ */
+function toParts(message: RenderableMessage): {
+    role: PromptRole;
+    parts: Part[];
+} {
+    const { content } = message;
+    if (typeof content === "string")
+        return { role: message.role, parts: [{ type: "text", text: content }] };
+    if (content.type === "text")
+        return {
+            role: message.role,
+            parts: [{ type: "text", text: content.data }],
+        };
+    return {
+        role: message.role,
+        parts: [
+            { type: "file", data: content.data, mimeType: content.mimeType },
+        ],
+    };
+}
+
+/**
+ * Converts parts into the content of the format, applying the file handling.
+ * @param parts Parts to convert.
+ * @param format Name of the format, for errors.
+ * @param handling How to handle unsupported files.
+ * @param text Converts a text into the format.
+ * @param convert Converts a file into the format, or returns null if it's unsupported.
+ */
+function convertParts<T>(
+    parts: readonly Part[],
+    format: string,
+    handling: UnsupportedFileHandling,
+    text: (text: string) => T,
+    convert: (file: Extract<Part, { type: "file" }>) => T | null,
+): T[] {
+    const output: T[] = [];
+    for (const part of parts) {
+        if (part.type === "text") {
+            output.push(text(part.text));
+            continue;
+        }
+        const converted = convert(part);
+        if (converted !== null) output.push(converted);
+        else if (handling === "placeholder")
+            output.push(text(`[file: ${part.mimeType}]`));
+        else if (handling === "error")
+            throw new ChatFormatError(
+                `${format} can't represent a file of ${part.mimeType}`,
+            );
+    }
+    return output;
+}
+
+/**
+ * Creates an instruct format, which renders every message as a turn of a string.
+ */
+function instructFormat(
+    name: string,
+    format: {
+        /** Prefix of the whole prompt, e.g. the BOS token. */
+        begin: string;
+        /** Renders a turn. */
+        turn: (role: PromptRole, content: string) => string;
+        /** Header of the assistant turn. */
+        generation: string;
+        /** Merges system messages into the next user turn, for formats without the system role. */
+        mergeSystem?: boolean;
+    },
+): ChatFormat<string> {
+    const unsupportedFiles = "placeholder";
+    return {
+        name,
+        unsupportedFiles,
+        render(messages, options = {}) {
+            const handling = options.unsupportedFiles ?? unsupportedFiles;
+            let output = format.begin;
+            let pendingSystem: string[] = [];
+            for (const message of messages) {
+                const { role, parts } = toParts(message);
+                const content = convertParts(
+                    parts,
+                    name,
+                    handling,
+                    (text) => text,
+                    () => null,
+                ).join("\n");
+                if (format.mergeSystem && role === "system") {
+                    pendingSystem.push(content);
+                    continue;
+                }
+                const merged =
+                    format.mergeSystem && role === "user"
+                        ? [...pendingSystem, content].join("\n\n")
+                        : content;
+                if (role === "user") pendingSystem = [];
+                output += format.turn(role, merged);
+            }
+            if (pendingSystem.length > 0)
+                output += format.turn("user", pendingSystem.join("\n\n"));
+            if (options.addGenerationPrompt ?? true)
+                output += format.generation;
+            return output;
+        },
+    };
+}
+
+/**
+ * ChatML, used by Qwen, many fine-tuned models and others.
+ */
+export const chatml: ChatFormat<string> = instructFormat("ChatML", {
+    begin: "",
+    turn: (role, content) => `<|im_start|>${role}\n${content}<|im_end|>\n`,
+    generation: "<|im_start|>assistant\n",
+});
+
+/**
+ * Llama 3 instruct format.
+ */
+export const llama3: ChatFormat<string> = instructFormat("Llama 3", {
+    begin: "<|begin_of_text|>",
+    turn: (role, content) =>
+        `<|start_header_id|>${role}<|end_header_id|>\n\n${content}<|eot_id|>`,
+    generation: "<|start_header_id|>assistant<|end_header_id|>\n\n",
+});
+
+/**
+ * Gemma instruct format. Gemma has no system role, so system messages are
+ * prepended to the next user turn, and the assistant is called `model`.
+ */
+export const gemma: ChatFormat<string> = instructFormat("Gemma", {
+    begin: "<bos>",
+    turn: (role, content) =>
+        `<start_of_turn>${role === "assistant" ? "model" : "user"}\n${content}<end_of_turn>\n`,
+    generation: "<start_of_turn>model\n",
+    mergeSystem: true,
+});
+
+/**
+ * A content part of OpenAI Chat Completions API.
+ */
+export type OpenAIContentPart =
+    | { type: "text"; text: string }
+    | { type: "image_url"; image_url: { url: string } };
+
+/**
+ * A message of OpenAI Chat Completions API.
+ */
+export interface OpenAIMessage {
+    role: PromptRole;
+    content: string | OpenAIContentPart[];
+}
+
+/**
+ * Converts the file into a URL which can be fetched by the API, or null for `local:` files.
+ */
+function toFetchableURL(file: Extract<Part, { type: "file" }>): string | null {
+    if (typeof file.data !== "string")
+        return toDataURL(file.data, file.mimeType);
+    return /^(?:https?|data):/i.test(file.data) ? file.data : null;
+}
+
+/**
+ * OpenAI Chat Completions API. Images are sent as `image_url` parts, and text-only
+ * messages as plain strings. Other files are unsupported.
+ */
+export const openai: ChatFormat<OpenAIMessage[]> = {
+    name: "OpenAI",
+    unsupportedFiles: "placeholder",
+    render(messages, options = {}) {
+        const handling = options.unsupportedFiles ?? openai.unsupportedFiles;
+        const output: OpenAIMessage[] = [];
+        for (const message of messages) {
+            const { role, parts } = toParts(message);
+            const content = convertParts<OpenAIContentPart>(
+                parts,
+                openai.name,
+                handling,
+                (text) => ({ type: "text", text }),
+                (file) => {
+                    // Only user messages may contain images.
+                    if (role !== "user" || !file.mimeType.startsWith("image/"))
+                        return null;
+                    const url = toFetchableURL(file);
+                    return url
+                        ? { type: "image_url", image_url: { url } }
+                        : null;
+                },
+            );
+            if (content.length === 0) continue;
+            output.push({
+                role,
+                content: content.every((part) => part.type === "text")
+                    ? content.map((part) => part.text).join("\n")
+                    : content,
+            });
+        }
+        return output;
+    },
+};
+
+/**
+ * Source of an Anthropic image or document block.
+ */
+export type AnthropicSource =
+    | { type: "base64"; media_type: string; data: string }
+    | { type: "url"; url: string };
+
+/**
+ * A content block of Anthropic Messages API.
+ */
+export type AnthropicContentBlock =
+    | { type: "text"; text: string }
+    | { type: "image"; source: AnthropicSource }
+    | { type: "document"; source: AnthropicSource };
+
+/**
+ * A message of Anthropic Messages API.
+ */
+export interface AnthropicMessage {
+    role: "user" | "assistant";
+    content: string | AnthropicContentBlock[];
+}
+
+/**
+ * The request body of Anthropic Messages API, without model parameters.
+ */
+export interface AnthropicPrompt {
+    /** Leading system messages, joined with blank lines. */
+    system?: string;
+    messages: AnthropicMessage[];
+}
+
+const ANTHROPIC_IMAGE_TYPES = [
+    "image/jpeg",
+    "image/png",
+    "image/gif",
+    "image/webp",
+];
+
+/**
+ * Converts the file into a source of Anthropic, or null for `local:` files.
+ * The media type of a `data:` URL is taken from the URL, since it's what the API checks.
+ */
+function toAnthropicSource(
+    file: Extract<Part, { type: "file" }>,
+): AnthropicSource | null {
+    if (typeof file.data !== "string")
+        return {
+            type: "base64",
+            media_type: file.mimeType,
+            data: toBase64(file.data),
+        };
+    const decoded = fromDataURL(file.data);
+    if (decoded)
+        return {
+            type: "base64",
+            media_type: decoded.mimeType.toLowerCase(),
+            data: toBase64(decoded.data),
+        };
+    return /^https?:/i.test(file.data) ? { type: "url", url: file.data } : null;
+}
+
+/**
+ * Anthropic Messages API. Leading system messages become the `system` prompt, and later ones
+ * become user messages, since the API has no system role in the conversation.
+ * JPEG, PNG, GIF and WebP images and PDF documents are supported in user messages.
+ */
+export const anthropic: ChatFormat<AnthropicPrompt> = {
+    name: "Anthropic",
+    unsupportedFiles: "placeholder",
+    render(messages, options = {}) {
+        const handling = options.unsupportedFiles ?? anthropic.unsupportedFiles;
+        const system: string[] = [];
+        const output: AnthropicMessage[] = [];
+        for (const message of messages) {
+            const { role, parts } = toParts(message);
+            const content = convertParts<AnthropicContentBlock>(
+                parts,
+                anthropic.name,
+                handling,
+                (text) => ({ type: "text", text }),
+                (file) => {
+                    if (role === "assistant") return null;
+                    const source = toAnthropicSource(file);
+                    if (!source) return null;
+                    const mimeType =
+                        source.type === "base64"
+                            ? source.media_type
+                            : file.mimeType;
+                    const type = ANTHROPIC_IMAGE_TYPES.includes(mimeType)
+                        ? "image"
+                        : mimeType === "application/pdf"
+                          ? "document"
+                          : null;
+                    return type ? { type, source } : null;
+                },
+            );
+            if (content.length === 0) continue;
+            const text = content.every((block) => block.type === "text")
+                ? content.map((block) => block.text).join("\n")
+                : null;
+            if (role === "system" && output.length === 0 && text !== null) {
+                system.push(text);
+                continue;
+            }
+            output.push({
+                role: role === "assistant" ? "assistant" : "user",
+                content: text ?? content,
+            });
+        }
+        return system.length > 0
+            ? { system: system.join("\n\n"), messages: output }
+            : { messages: output };
+    },
+};
+
+/**
+ * All chat formats, by their identifiers.
+ */
+export const chatFormats = Object.freeze({
+    chatml,
+    llama3,
+    gemma,
+    openai,
+    anthropic,
+});
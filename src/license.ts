@@ -0,0 +1,501 @@
+/**
+ * @fileoverview Parsing and validation of `metadata.license`, and facts about the license
+ * such as whether it allows derivatives, for warning users before they remix a character.
+ *
+ * A license is one of:
+ * - `ARR`: All rights reserved by the author. The default.
+ * - A URL of the license text.
+ * - An SPDX license expression, e.g. `MIT OR CC-BY-4.0` or `GPL-2.0-or-later WITH Classpath-exception-2.0`.
+ *   `AND` binds tighter than `OR`, and operators are either all uppercase or all lowercase.
+ */
+import type * as z from "zod";
+import type { Character } from "@/types/v0/Character/Character";
+
+/**
+ * A node of a parsed SPDX expression.
+ */
+export type LicenseExpression =
+    | {
+          type: "license";
+          /** The identifier, in the canonical case if known, e.g. `CC-BY-4.0` or `LicenseRef-Custom`. */
+          id: string;
+          /** True if the identifier has the `+` suffix, i.e. "this version or later". */
+          orLater: boolean;
+          /** The exception of `WITH`, if any. */
+          exception?: string;
+      }
+    | {
+          /** Both licenses apply. */
+          type: "and";
+          left: LicenseExpression;
+          right: LicenseExpression;
+      }
+    | {
+          /** Either license may be chosen. */
+          type: "or";
+          left: LicenseExpression;
+          right: LicenseExpression;
+      };
+
+/**
+ * The result of {@link parseLicense}.
+ */
+export type ParsedLicense =
+    | { type: "arr" }
+    | { type: "url"; url: string }
+    | { type: "spdx"; expression: LicenseExpression };
+
+/**
+ * Thrown when the license is neither `ARR`, a URL, nor a valid SPDX expression.
+ */
+export class LicenseSyntaxError extends Error {
+    /** Offset of the error in the license string. */
+    readonly offset: number;
+
+    constructor(message: string, offset: number) {
+        super(message);
+        this.name = "LicenseSyntaxError";
+        this.offset = offset;
+    }
+}
+
+/**
+ * What a license allows and requires. `null` means unknown, e.g. for URLs and
+ * identifiers which are not in the built-in list.
+ */
+export interface LicenseFacts {
+    /** Copies may be shared. */
+    allowsRedistribution: boolean | null;
+    /** The character may be used commercially. */
+    allowsCommercialUse: boolean | null;
+    /** Modified versions, e.g. remixes, may be shared. */
+    allowsDerivatives: boolean | null;
+    /** The author must be credited. */
+    requiresAttribution: boolean | null;
+    /** Derivatives must be shared under the same license. */
+    requiresShareAlike: boolean | null;
+}
+
+/**
+ * A problem found by {@link validateLicense}.
+ */
+export interface LicenseIssue {
+    /**
+     * - `error`: The license can't be parsed.
+     * - `warning`: The license is valid, but an identifier or an exception is unknown or deprecated.
+     */
+    severity: "warning" | "error";
+    message: string;
+}
+
+const facts = (
+    allowsCommercialUse: boolean,
+    allowsDerivatives: boolean,
+    requiresAttribution: boolean,
+    requiresShareAlike: boolean,
+): LicenseFacts => ({
+    allowsRedistribution: true,
+    allowsCommercialUse,
+    allowsDerivatives,
+    requiresAttribution,
+    requiresShareAlike,
+});
+
+const PERMISSIVE = facts(true, true, true, false);
+const PUBLIC_DOMAIN = facts(true, true, false, false);
+const COPYLEFT = facts(true, true, true, true);
+
+/**
+ * Facts of an all rights reserved license.
+ */
+const ARR_FACTS: LicenseFacts = {
+    allowsRedistribution: false,
+    allowsCommercialUse: false,
+    allowsDerivatives: false,
+    requiresAttribution: false,
+    requiresShareAlike: false,
+};
+
+const UNKNOWN_FACTS: LicenseFacts = {
+    allowsRedistribution: null,
+    allowsCommercialUse: null,
+    allowsDerivatives: null,
+    requiresAttribution: null,
+    requiresShareAlike: null,
+};
+
+/**
+ * Creative Commons licenses, by their elements.
+ */
+function creativeCommons(): Record<string, LicenseFacts> {
+    const licenses: Record<string, LicenseFacts> = {};
+    for (const version of ["2.0", "2.5", "3.0", "4.0"])
+        for (const nc of [false, true])
+            for (const variant of ["", "-SA", "-ND"]) {
+                const id = `CC-BY${nc ? "-NC" : ""}${variant}-${version}`;
+                licenses[id] = facts(
+                    !nc,
+                    variant !== "-ND",
+                    true,
+                    variant === "-SA",
+                );
+            }
+    return licenses;
+}
+
+/**
+ * Known SPDX licenses. Common licenses of software, fonts and creative works.
+ */
+const LICENSES: Record<string, LicenseFacts> = {
+    ...creativeCommons(),
+    "CC0-1.0": PUBLIC_DOMAIN,
+    "CC-PDDC": PUBLIC_DOMAIN,
+    Unlicense: PUBLIC_DOMAIN,
+    "0BSD": PUBLIC_DOMAIN,
+    WTFPL: PUBLIC_DOMAIN,
+    MIT: PERMISSIVE,
+    "MIT-0": PUBLIC_DOMAIN,
+    ISC: PERMISSIVE,
+    "BSD-2-Clause": PERMISSIVE,
+    "BSD-3-Clause": PERMISSIVE,
+    "Apache-2.0": PERMISSIVE,
+    Zlib: PERMISSIVE,
+    "BSL-1.0": PERMISSIVE,
+    "OFL-1.1": COPYLEFT,
+    "MPL-2.0": COPYLEFT,
+    "EPL-2.0": COPYLEFT,
+    "LGPL-2.1-only": COPYLEFT,
+    "LGPL-2.1-or-later": COPYLEFT,
+    "LGPL-3.0-only": COPYLEFT,
+    "LGPL-3.0-or-later": COPYLEFT,
+    "GPL-2.0-only": COPYLEFT,
+    "GPL-2.0-or-later": COPYLEFT,
+    "GPL-3.0-only": COPYLEFT,
+    "GPL-3.0-or-later": COPYLEFT,
+    "AGPL-3.0-only": COPYLEFT,
+    "AGPL-3.0-or-later": COPYLEFT,
+    "GFDL-1.3-only": COPYLEFT,
+    "GFDL-1.3-or-later": COPYLEFT,
+};
+
+/**
+ * Deprecated SPDX identifiers. Each is replaced by `<id>-only`, or `<id>-or-later` with `+`.
+ */
+const DEPRECATED: ReadonlySet<string> = new Set([
+    "GPL-2.0",
+    "GPL-3.0",
+    "LGPL-2.1",
+    "LGPL-3.0",
+    "AGPL-3.0",
+    "GFDL-1.3",
+]);
+
+/**
+ * Returns the replacement of the deprecated identifier, or undefined if it's not deprecated.
+ */
+function replacementOf(
+    node: Extract<LicenseExpression, { type: "license" }>,
+): string | undefined {
+    if (!DEPRECATED.has(node.id)) return undefined;
+    return `${node.id}-${node.orLater ? "or-later" : "only"}`;
+}
+
+/**
+ * Known SPDX license exceptions.
+ */
+const EXCEPTIONS = [
+    "Classpath-exception-2.0",
+    "LLVM-exception",
+    "GCC-exception-3.1",
+    "Autoconf-exception-3.0",
+    "Bison-exception-2.2",
+    "Font-exception-2.0",
+    "OCaml-LGPL-linking-exception",
+];
+
+/**
+ * Canonical identifiers by their lowercase form. SPDX identifiers are case insensitive.
+ */
+const canonical = new Map(
+    [...Object.keys(LICENSES), ...DEPRECATED, ...EXCEPTIONS].map((id) => [
+        id.toLowerCase(),
+        id,
+    ]),
+);
+
+/**
+ * A token of an SPDX expression.
+ */
+interface Token {
+    value: string;
+    offset: number;
+}
+
+const OPERATORS = ["AND", "OR", "WITH"];
+
+/**
+ * Returns the operator of the token, accepting all uppercase or all lowercase.
+ */
+const operator = (token: Token | undefined): string | null =>
+    token &&
+    OPERATORS.includes(token.value.toUpperCase()) &&
+    (token.value === token.value.toUpperCase() ||
+        token.value === token.value.toLowerCase())
+        ? token.value.toUpperCase()
+        : null;
+
+/**
+ * Parses an SPDX license expression.
+ * @throws {LicenseSyntaxError} If the expression is invalid.
+ */
+function parseExpression(source: string): LicenseExpression {
+    const tokens: Token[] = [];
+    for (const match of source.matchAll(/[()]|[^\s()]+/g))
+        tokens.push({ value: match[0], offset: match.index });
+    let i = 0;
+
+    const expect = (what: string): Token => {
+        const token = tokens[i];
+        if (!token)
+            throw new LicenseSyntaxError(
+                `Expected ${what}, but the expression ended`,
+                source.length,
+            );
+        return token;
+    };
+
+    const parseOr = (): LicenseExpression => {
+        let left = parseAnd();
+        while (operator(tokens[i]) === "OR") {
+            i++;
+            left = { type: "or", left, right: parseAnd() };
+        }
+        return left;
+    };
+
+    const parseAnd = (): LicenseExpression => {
+        let left = parseWith();
+        while (operator(tokens[i]) === "AND") {
+            i++;
+            left = { type: "and", left, right: parseWith() };
+        }
+        return left;
+    };
+
+    const parseWith = (): LicenseExpression => {
+        const token = expect("a license");
+        if (token.value === "(") {
+            i++;
+            const inner = parseOr();
+            const close = expect("')'");
+            if (close.value !== ")")
+                throw new LicenseSyntaxError(
+                    `Expected ')', but got '${close.value}'`,
+                    close.offset,
+                );
+            i++;
+            return inner;
+        }
+        if (
+            operator(token) ||
+            token.value === ")" ||
+            !/^(?:DocumentRef-[\w.-]+:)?[\w.-]+\+?$/.test(token.value)
+        )
+            throw new LicenseSyntaxError(
+                `Expected a license, but got '${token.value}'`,
+                token.offset,
+            );
+        i++;
+        const orLater = token.value.endsWith("+");
+        const id = orLater ? token.value.slice(0, -1) : token.value;
+        const license: LicenseExpression = {
+            type: "license",
+            id: canonical.get(id.toLowerCase()) ?? id,
+            orLater,
+        };
+        if (operator(tokens[i]) !== "WITH") return license;
+        i++;
+        const exception = expect("an exception");
+        if (
+            operator(exception) ||
+            !/^(?:DocumentRef-[\w.-]+:)?[\w.-]+$/.test(exception.value)
+        )
+            throw new LicenseSyntaxError(
+                `Expected an exception, but got '${exception.value}'`,
+                exception.offset,
+            );
+        i++;
+        return {
+            ...license,
+            exception:
+                canonical.get(exception.value.toLowerCase()) ?? exception.value,
+        };
+    };
+
+    const expression = parseOr();
+    const rest = tokens[i];
+    if (rest)
+        throw new LicenseSyntaxError(`Unexpected '${rest.value}'`, rest.offset);
+    return expression;
+}
+
+/**
+ * Parses the license.
+ * @param license The license, e.g. `metadata.license` of a character.
+ * @returns `ARR`, a URL, or the parsed SPDX expression.
+ * @throws {LicenseSyntaxError} If the license is empty, or an invalid SPDX expression.
+ * @example
+ * ```ts
+ * parseLicense("MIT OR CC-BY-4.0");
+ * // { type: "spdx", expression: { type: "or", left: { type: "license", id: "MIT", ... }, right: ... } }
+ * ```
+ */
+export function parseLicense(license: string): ParsedLicense {
+    const trimmed = license.trim();
+    if (!trimmed) throw new LicenseSyntaxError("License is empty", 0);
+    if (trimmed.toUpperCase() === "ARR") return { type: "arr" };
+    if (/^https?:\/\//i.test(trimmed)) {
+        try {
+            return { type: "url", url: new URL(trimmed).href };
+        } catch {
+            throw new LicenseSyntaxError("Invalid URL", 0);
+        }
+    }
+    return { type: "spdx", expression: parseExpression(license) };
+}
+
+/**
+ * Lists the license nodes of the expression.
+ */
+function licensesOf(
+    expression: LicenseExpression,
+): Extract<LicenseExpression, { type: "license" }>[] {
+    return expression.type === "license"
+        ? [expression]
+        : [...licensesOf(expression.left), ...licensesOf(expression.right)];
+}
+
+/**
+ * Validates the license.
+ * @param license The license, e.g. `metadata.license` of a character.
+ * @returns The issues. Empty if the license is `ARR`, a URL, or an SPDX expression of known identifiers.
+ */
+export function validateLicense(license: string): LicenseIssue[] {
+    let parsed: ParsedLicense;
+    try {
+        parsed = parseLicense(license);
+    } catch (e) {
+        if (!(e instanceof LicenseSyntaxError)) throw e;
+        return [{ severity: "error", message: e.message }];
+    }
+    if (parsed.type !== "spdx") return [];
+
+    const issues: LicenseIssue[] = [];
+    for (const node of licensesOf(parsed.expression)) {
+        const replacement = replacementOf(node);
+        if (replacement)
+            issues.push({
+                severity: "warning",
+                message: `${node.id}${node.orLater ? "+" : ""} is deprecated, use ${replacement}`,
+            });
+        else if (
+            !Object.hasOwn(LICENSES, node.id) &&
+            !/^(?:DocumentRef-[\w.-]+:)?LicenseRef-/.test(node.id)
+        )
+            issues.push({
+                severity: "warning",
+                message: `Unknown license: ${node.id}`,
+            });
+        if (node.exception && !EXCEPTIONS.includes(node.exception))
+            issues.push({
+                severity: "warning",
+                message: `Unknown exception: ${node.exception}`,
+            });
+    }
+    return issues;
+}
+
+type Ternary = boolean | null;
+
+/**
+ * Three-valued AND and OR, where `null` is unknown.
+ */
+const every = (a: Ternary, b: Ternary): Ternary =>
+    a === false || b === false ? false : a === null || b === null ? null : true;
+const some = (a: Ternary, b: Ternary): Ternary =>
+    a === true || b === true ? true : a === null || b === null ? null : false;
+
+/**
+ * Returns the facts of the expression.
+ * With `AND` both licenses apply, so a permission needs both and a requirement needs either.
+ * With `OR` the user may choose, so a permission needs either and a requirement needs both.
+ */
+function factsOf(expression: LicenseExpression): LicenseFacts {
+    if (expression.type === "license") {
+        const id = replacementOf(expression) ?? expression.id;
+        return Object.hasOwn(LICENSES, id)
+            ? (LICENSES[id] as LicenseFacts)
+            : UNKNOWN_FACTS;
+    }
+    const left = factsOf(expression.left);
+    const right = factsOf(expression.right);
+    const allow = expression.type === "and" ? every : some;
+    const require = expression.type === "and" ? some : every;
+    return {
+        allowsRedistribution: allow(
+            left.allowsRedistribution,
+            right.allowsRedistribution,
+        ),
+        allowsCommercialUse: allow(
+            left.allowsCommercialUse,
+            right.allowsCommercialUse,
+        ),
+        allowsDerivatives: allow(
+            left.allowsDerivatives,
+            right.allowsDerivatives,
+        ),
+        requiresAttribution: require(left.requiresAttribution, right.requiresAttribution),
+        requiresShareAlike: require(left.requiresShareAlike, right.requiresShareAlike),
+    };
+}
+
+/**
+ * Returns what the license allows and requires.
+ * @param license The license string, or the output of {@link parseLicense}.
+ * @returns The facts. Unknown facts, e.g. of URLs, are `null`.
+ * @throws {LicenseSyntaxError} If the license string can't be parsed.
+ * @example
+ * ```ts
+ * getLicenseFacts("CC-BY-NC-SA-4.0");
+ * // { allowsRedistribution: true, allowsCommercialUse: false, allowsDerivatives: true,
+ * //   requiresAttribution: true, requiresShareAlike: true }
+ * if (getLicenseFacts(character.metadata.license).allowsDerivatives !== true)
+ *     warn("The author may not allow remixes of this character.");
+ * ```
+ */
+export function getLicenseFacts(license: string | ParsedLicense): LicenseFacts {
+    const parsed =
+        typeof license === "string" ? parseLicense(license) : license;
+    if (parsed.type === "arr") return { ...ARR_FACTS };
+    if (parsed.type === "url") return { ...UNKNOWN_FACTS };
+    return { ...factsOf(parsed.expression) };
+}
+
+/**
+ * Adds license validation to the character schema, as an optional refinement.
+ * Licenses which can't be parsed fail the validation with a custom issue at `metadata.license`.
+ * Unknown identifiers are allowed.
+ * @param schema The character schema, e.g. `CharacterSchema`.
+ * @returns The refined schema.
+ */
+export function refineLicense<T extends z.ZodType<Character>>(schema: T): T {
+    return schema.superRefine((character, ctx) => {
+        for (const issue of validateLicense(character.metadata.license))
+            if (issue.severity === "error")
+                ctx.addIssue({
+                    code: "custom",
+                    message: issue.message,
+                    path: ["metadata", "license"],
+                });
+    }) as T;
+}
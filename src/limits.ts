@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Size budgets of characters and their assets.
+ * The marketplace rejects characters over the `share` profile, and the local editor
+ * warns about characters over the `local` profile.
+ */
+import { toJSONPath } from "@/report";
+import type { Character } from "@/types/v0/Character/Character";
+import { fromDataURL } from "@/utils";
+
+/**
+ * Limits of a character. Use `Infinity` for no limit.
+ * Lengths are counted in UTF-16 code units, i.e. `String.prototype.length`.
+ */
+export interface LimitsProfile {
+    /** Total bytes of binary and `data:` URL assets, and the `data:` URL avatar. Remote URLs are not counted. */
+    maxTotalAssetBytes: number;
+    /** Bytes of a single binary or `data:` URL asset, or the avatar. */
+    maxAssetBytes: number;
+    /** Length of a `data:` URL asset, or `avatarUrl`. */
+    maxDataURLLength: number;
+    /** Number of entries of the character lorebook. */
+    maxLorebookEntries: number;
+    /** Number of replace hooks, in all stages. */
+    maxHooks: number;
+    /** Length of `prompt.description` and `prompt.authorsNote` together. */
+    maxPromptLength: number;
+}
+
+/**
+ * Name of a limit.
+ */
+export type LimitName = keyof LimitsProfile;
+
+const MiB = 1024 * 1024;
+
+/**
+ * Built-in profiles.
+ * - `share`: Characters uploaded to the marketplace.
+ * - `local`: Characters in the local editor. Generous, only to keep the editor responsive.
+ */
+export const LIMITS_PROFILES: Readonly<
+    Record<"share" | "local", Readonly<LimitsProfile>>
+> = Object.freeze({
+    share: Object.freeze({
+        maxTotalAssetBytes: 50 * MiB,
+        maxAssetBytes: 10 * MiB,
+        maxDataURLLength: 64 * 1024,
+        maxLorebookEntries: 1000,
+        maxHooks: 200,
+        maxPromptLength: 100_000,
+    }),
+    local: Object.freeze({
+        maxTotalAssetBytes: 1024 * MiB,
+        maxAssetBytes: 200 * MiB,
+        maxDataURLLength: 10 * MiB,
+        maxLorebookEntries: 10_000,
+        maxHooks: 2000,
+        maxPromptLength: 1_000_000,
+    }),
+});
+
+/**
+ * A limit exceeded by the character.
+ */
+export interface LimitViolation {
+    /** JSON path of the value over the limit, e.g. `$.assets.assets[0].data`. */
+    path: string;
+    limit: LimitName;
+    /** The measured value. */
+    actual: number;
+    /** The value of the limit. */
+    max: number;
+    /** Human readable description of the violation. */
+    message: string;
+}
+
+/**
+ * Checks the character against the limits.
+ * @param character The parsed character.
+ * @param profile The limits, or the name of a built-in profile.
+ * @returns The violations. Empty if the character is within the limits.
+ * @example
+ * ```ts
+ * const violations = checkLimits(character, "share");
+ * if (violations.length > 0) refuseUpload(violations.map((v) => v.message));
+ *
+ * // Custom profile based on a built-in one.
+ * checkLimits(character, { ...LIMITS_PROFILES.share, maxHooks: 50 });
+ * ```
+ */
+export function checkLimits(
+    character: Character,
+    profile: LimitsProfile | keyof typeof LIMITS_PROFILES,
+): LimitViolation[] {
+    const limits =
+        typeof profile === "string" ? LIMITS_PROFILES[profile] : profile;
+    const violations: LimitViolation[] = [];
+    const check = (
+        path: PropertyKey[],
+        limit: LimitName,
+        actual: number,
+        what: string,
+    ) => {
+        const max = limits[limit];
+        if (actual > max)
+            violations.push({
+                path: toJSONPath(path),
+                limit,
+                actual,
+                max,
+                message: `${what} is ${actual}, over the limit of ${max}`,
+            });
+    };
+
+    // Assets, and image URLs which may be `data:` URLs.
+    const files: {
+        path: PropertyKey[];
+        name: string;
+        data: string | Uint8Array;
+    }[] = character.assets.assets.map((asset, i) => ({
+        path: ["assets", "assets", i, "data"],
+        name: JSON.stringify(asset.name),
+        data: asset.data,
+    }));
+    if (character.avatarUrl !== undefined)
+        files.push({
+            path: ["avatarUrl"],
+            name: "the avatar",
+            data: character.avatarUrl,
+        });
+
+    let total = 0;
+    for (const { path, name, data } of files) {
+        let bytes = 0;
+        if (data instanceof Uint8Array) bytes = data.length;
+        else if (/^data:/i.test(data)) {
+            check(
+                path,
+                "maxDataURLLength",
+                data.length,
+                `Length of the data: URL of ${name}`,
+            );
+            bytes = fromDataURL(data)?.data.length ?? 0;
+        }
+        check(path, "maxAssetBytes", bytes, `Size of ${name} in bytes`);
+        total += bytes;
+    }
+    check(
+        ["assets", "assets"],
+        "maxTotalAssetBytes",
+        total,
+        "Total size of assets in bytes",
+    );
+
+    check(
+        ["prompt", "lorebook", "data"],
+        "maxLorebookEntries",
+        character.prompt.lorebook.data.length,
+        "Number of lorebook entries",
+    );
+
+    check(
+        ["executables", "replaceHooks"],
+        "maxHooks",
+        Object.values(character.executables.replaceHooks).reduce(
+            (sum, hooks) => sum + hooks.length,
+            0,
+        ),
+        "Number of replace hooks",
+    );
+
+    check(
+        ["prompt"],
+        "maxPromptLength",
+        character.prompt.description.length +
+            (character.prompt.authorsNote?.length ?? 0),
+        "Length of the prompt description and the authors note",
+    );
+
+    return violations;
+}
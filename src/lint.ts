@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Semantic checks of characters, beyond the structure checked by the schemas.
+ * Meant to be shown in the editor before the creator publishes the character.
+ */
+import {
+    MacroSyntaxError,
+    renderTemplate,
+    validateCharacterTemplates,
+} from "@/macro";
+import { toJSONPath } from "@/report";
+import type { Character } from "@/types/v0/Character/Character";
+
+/**
+ * Severity of a lint issue.
+ * - `warning`: The character works, but probably not as intended.
+ * - `error`: Part of the character is broken, e.g. a regex doesn't compile.
+ */
+export type LintSeverity = "warning" | "error";
+
+/**
+ * Identifiers of lint rules.
+ */
+export type LintCode =
+    | "missing-avatar-asset"
+    | "empty-condition"
+    | "invalid-regex"
+    | "duplicate-hook"
+    | "empty-description"
+    | "invalid-template";
+
+/**
+ * A problem found by {@link lintCharacter}.
+ */
+export interface LintIssue {
+    /** JSON path of the problem, e.g. `$.prompt.lorebook.data[0].condition`. */
+    path: string;
+    severity: LintSeverity;
+    code: LintCode;
+    /** Human readable description of the problem. */
+    message: string;
+}
+
+/**
+ * Compiles the regex, and returns the error message if it fails.
+ * @param pattern The regex pattern.
+ * @param flags The regex flags.
+ * @param scriptable If true, macros in the pattern are rendered with placeholder values first.
+ */
+function checkRegex(
+    pattern: string,
+    flags: string | undefined,
+    scriptable: boolean,
+): string | null {
+    let source = pattern;
+    try {
+        if (scriptable)
+            source = renderTemplate(pattern, { char: "char", user: "user" });
+    } catch (e) {
+        // Reported by the template check.
+        if (e instanceof MacroSyntaxError) return null;
+        throw e;
+    }
+    try {
+        new RegExp(source, flags);
+        return null;
+    } catch (e) {
+        return (e as Error).message;
+    }
+}
+
+/**
+ * Lints the character.
+ * @param character The parsed character.
+ * @returns The issues, in the order of the checks. Empty if nothing was found.
+ * @example
+ * ```ts
+ * const issues = lintCharacter(CharacterSchema.parse(data));
+ * const publishable = !issues.some((i) => i.severity === "error");
+ * ```
+ */
+export function lintCharacter(character: Character): LintIssue[] {
+    const issues: LintIssue[] = [];
+    const add = (
+        path: PropertyKey[],
+        severity: LintSeverity,
+        code: LintCode,
+        message: string,
+    ) => issues.push({ path: toJSONPath(path), severity, code, message });
+
+    if (
+        character.avatarUrl !== undefined &&
+        !character.assets.assets.some((a) => a.name === character.avatarUrl)
+    )
+        add(
+            ["avatarUrl"],
+            "error",
+            "missing-avatar-asset",
+            `No asset is named ${JSON.stringify(character.avatarUrl)}`,
+        );
+
+    if (!character.prompt.description.trim())
+        add(
+            ["prompt", "description"],
+            "warning",
+            "empty-description",
+            "The prompt description is empty",
+        );
+
+    for (const [i, entry] of character.prompt.lorebook.data.entries()) {
+        const base = ["prompt", "lorebook", "data", i];
+        if (entry.condition.length === 0)
+            add(
+                [...base, "condition"],
+                "warning",
+                "empty-condition",
+                `Lorebook entry ${JSON.stringify(entry.name)} has no condition, so it never activates. Use 'always' to activate it unconditionally`,
+            );
+        for (const [j, condition] of entry.condition.entries()) {
+            if (condition.type !== "regex_match") continue;
+            const error = checkRegex(
+                condition.regexPattern,
+                condition.regexFlags,
+                true,
+            );
+            if (error)
+                add([...base, "condition", j], "error", "invalid-regex", error);
+        }
+    }
+
+    for (const [stage, hooks] of Object.entries(
+        character.executables.replaceHooks,
+    )) {
+        const seen = new Map<string, number>();
+        for (const [i, hook] of hooks.entries()) {
+            const path = ["executables", "replaceHooks", stage, i];
+            const key = JSON.stringify([hook.input, hook.meta, hook.output]);
+            const first = seen.get(key);
+            if (first !== undefined)
+                add(
+                    path,
+                    "warning",
+                    "duplicate-hook",
+                    `Same as the hook at index ${first}`,
+                );
+            else seen.set(key, i);
+
+            // Scripted patterns are only known at runtime.
+            if (hook.meta.type !== "regex" || hook.meta.isInputPatternScripted)
+                continue;
+            const error = checkRegex(hook.input, hook.meta.flag, false);
+            if (error) add(path, "error", "invalid-regex", error);
+        }
+    }
+
+    for (const issue of validateCharacterTemplates(character))
+        issues.push({
+            path: issue.path,
+            severity: issue.kind === "syntax" ? "error" : "warning",
+            code: "invalid-template",
+            message: `${issue.message} at ${issue.start}`,
+        });
+
+    return issues;
+}
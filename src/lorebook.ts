@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Activation of lorebook entries against the chat text.
+ * Evaluates the conditions of each entry, sorts the active entries by priority
+ * and enforces `config.tokenLimit` of the lorebook.
+ */
+import { heuristicTokenizer, type Tokenizer } from "@/tokenizer";
+import type {
+    LorebookCondition,
+    LorebookData,
+    LorebookEntry,
+} from "@/types/v0/Character/Lorebook";
+
+/**
+ * The context to activate the lorebook against.
+ */
+export interface ActivationContext {
+    /**
+     * The text to scan, usually recent messages joined with newlines.
+     * Scriptable fields of the conditions should be rendered with {@link render}.
+     */
+    text: string;
+    /**
+     * Counts tokens of the entry content, to enforce `config.tokenLimit`.
+     * Use the tokenizer of the model, so the budget matches it.
+     * Default is {@link heuristicTokenizer}.
+     */
+    tokenizer?: Tokenizer;
+    /**
+     * Renders the scriptable fields of the entries, e.g. macros.
+     * Conditions are rendered only for enabled entries, and the content only for matched ones,
+     * so a broken template in an entry which never fires costs nothing.
+     */
+    render?: ActivationRenderer;
+}
+
+/**
+ * Renders the scriptable fields of lorebook entries during activation.
+ * An error thrown by either function skips the entry, and is reported in `failed`.
+ */
+export interface ActivationRenderer {
+    /** Renders a condition before it's evaluated. */
+    condition?: (condition: LorebookCondition) => LorebookCondition;
+    /** Renders the content of a matched entry, before its tokens are counted. */
+    content?: (content: string) => string;
+}
+
+/**
+ * Why a condition fired.
+ */
+export type ActivationReason =
+    | { type: "always"; condition: number }
+    | { type: "regex_match"; condition: number; match: string; index: number }
+    | {
+          type: "plain_text_match";
+          condition: number;
+          match: string;
+          index: number;
+      };
+
+/**
+ * An entry whose conditions were met.
+ */
+export interface ActivatedEntry {
+    entry: LorebookEntry;
+    /** Fired conditions, in the order of `entry.condition`. `condition` is the index of it. */
+    reasons: ActivationReason[];
+    /** Token count of the content. */
+    tokens: number;
+}
+
+/**
+ * The result of {@link activateLorebook}.
+ */
+export interface ActivationResult {
+    /** Active entries, sorted by priority in descending order. Ties keep the lorebook order. */
+    entries: ActivatedEntry[];
+    /** Entries whose conditions were met, but were dropped by the token limit. */
+    dropped: ActivatedEntry[];
+    /** Total token count of the active entries. */
+    tokens: number;
+    /** Enabled entries which were skipped, because a condition can't be rendered or evaluated. */
+    failed: { entry: LorebookEntry; error: LorebookError }[];
+}
+
+/**
+ * Thrown when a condition can't be evaluated, e.g. its regex is invalid,
+ * or when a field of the entry can't be rendered.
+ */
+export class LorebookError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "LorebookError";
+    }
+}
+
+/**
+ * Evaluates a single condition.
+ * @param condition The condition to evaluate.
+ * @param index Index of the condition in the entry.
+ * @param text The text to scan.
+ * @returns The reason if the condition fired, otherwise null.
+ * @throws {LorebookError} If the regex is invalid.
+ */
+export function evaluateCondition(
+    condition: LorebookCondition,
+    index: number,
+    text: string,
+): ActivationReason | null {
+    switch (condition.type) {
+        case "always":
+            return { type: "always", condition: index };
+        case "plain_text_match": {
+            if (!condition.text) return null;
+            // Lowercasing may change the length, e.g. `İ`, so match the text itself.
+            const match = new RegExp(
+                condition.text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+                "iu",
+            ).exec(text);
+            if (!match) return null;
+            return {
+                type: "plain_text_match",
+                condition: index,
+                match: match[0],
+                index: match.index,
+            };
+        }
+        case "regex_match": {
+            let regex: RegExp;
+            try {
+                // `g` and `y` make the regex stateful, which is meaningless for a single test.
+                regex = new RegExp(
+                    condition.regexPattern,
+                    condition.regexFlags?.replace(/[gy]/g, ""),
+                );
+            } catch (e) {
+                throw new LorebookError(
+                    `Invalid regex /${condition.regexPattern}/${condition.regexFlags ?? ""}: ${(e as Error).message}`,
+                );
+            }
+            const match = regex.exec(text);
+            if (!match) return null;
+            return {
+                type: "regex_match",
+                condition: index,
+                match: match[0],
+                index: match.index,
+            };
+        }
+    }
+}
+
+/**
+ * Evaluates the conditions of the entry with its `multipleConditionResolveStrategy`.
+ * @param entry The lorebook entry.
+ * @param text The text to scan.
+ * @returns Fired conditions if the entry is active, otherwise null.
+ * Disabled entries and entries without conditions are never active.
+ * @throws {LorebookError} If a regex is invalid.
+ */
+export function matchEntry(
+    entry: LorebookEntry,
+    text: string,
+): ActivationReason[] | null {
+    if (!entry.enabled || entry.condition.length === 0) return null;
+    const reasons: ActivationReason[] = [];
+    for (const [i, condition] of entry.condition.entries()) {
+        const reason = evaluateCondition(condition, i, text);
+        if (reason) reasons.push(reason);
+        else if (entry.multipleConditionResolveStrategy === "all") return null;
+    }
+    return reasons.length > 0 ? reasons : null;
+}
+
+/**
+ * Calls the render function, and wraps its error in {@link LorebookError}.
+ */
+function renderField<T>(fn: ((value: T) => T) | undefined, value: T): T {
+    if (!fn) return value;
+    try {
+        return fn(value);
+    } catch (e) {
+        throw new LorebookError(`Can't render entry: ${(e as Error).message}`);
+    }
+}
+
+/**
+ * Activates the lorebook against the context.
+ * Active entries are sorted by priority, and once the total token count exceeds
+ * `config.tokenLimit`, the entry and all entries of lower priority are dropped.
+ * An entry whose condition can't be rendered or evaluated, e.g. with an invalid regex, is skipped
+ * and reported in `failed`, so one broken entry doesn't break the whole prompt.
+ * @param lorebook The lorebook to activate.
+ * @param context The text to scan, the tokenizer and the renderer.
+ * @returns Active entries with the reason each one fired, dropped entries and failed entries.
+ * @example
+ * ```ts
+ * const { entries } = activateLorebook(character.prompt.lorebook, {
+ *     text: messages.map((m) => m.content.data).join("\n"),
+ * });
+ * const prompt = entries.map((e) => e.entry.content).join("\n");
+ * ```
+ */
+export function activateLorebook(
+    lorebook: LorebookData,
+    context: ActivationContext,
+): ActivationResult {
+    const tokenizer = context.tokenizer ?? heuristicTokenizer;
+    const matched: ActivatedEntry[] = [];
+    const failed: ActivationResult["failed"] = [];
+    const render = context.render ?? {};
+    for (const entry of lorebook.data) {
+        if (!entry.enabled) continue;
+        let active = entry;
+        let reasons: ActivationReason[] | null;
+        try {
+            if (render.condition)
+                active = {
+                    ...active,
+                    condition: entry.condition.map((c) =>
+                        renderField(render.condition, c),
+                    ),
+                };
+            reasons = matchEntry(active, context.text);
+            if (reasons && render.content)
+                active = {
+                    ...active,
+                    content: renderField(render.content, entry.content),
+                };
+        } catch (e) {
+            if (!(e instanceof LorebookError)) throw e;
+            failed.push({ entry, error: e });
+            continue;
+        }
+        if (reasons)
+            matched.push({
+                entry: active,
+                reasons,
+                tokens: tokenizer.count(active.content),
+            });
+    }
+    // Array#sort is stable, so ties keep the lorebook order.
+    matched.sort((a, b) => (b.entry.priority ?? 0) - (a.entry.priority ?? 0));
+
+    const limit = lorebook.config.tokenLimit ?? Number.POSITIVE_INFINITY;
+    let tokens = 0;
+    const cut = matched.findIndex((e) => {
+        if (tokens + e.tokens > limit) return true;
+        tokens += e.tokens;
+        return false;
+    });
+    if (cut < 0) return { entries: matched, dropped: [], tokens, failed };
+    return {
+        entries: matched.slice(0, cut),
+        dropped: matched.slice(cut),
+        tokens,
+        failed,
+    };
+}
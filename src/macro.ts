@@ -0,0 +1,413 @@
+/**
+ * @fileoverview The macro language of scriptable prompt fields, e.g. `prompt.description`,
+ * `prompt.authorsNote`, and `content` and conditions of lorebook entries.
+ *
+ * Syntax:
+ * - `{{name}}` or `{{name::arg1::arg2}}` calls a macro. Names are case insensitive.
+ * - Arguments may contain macros, e.g. `{{random::{{char}}::{{user}}}}`.
+ * - `{{// comment}}` is removed from the output.
+ * - `{{` without the closing `}}` is a syntax error. `::` and `}}` outside of macros are plain text.
+ *
+ * Macros are side-effect free. They only read the {@link MacroContext}, so rendering the same
+ * template with the same context, including `now` and `random`, always gives the same output.
+ */
+import { toJSONPath } from "@/report";
+import type { Character } from "@/types/v0/Character/Character";
+
+/**
+ * Plain text of the template.
+ */
+export interface TextNode {
+    type: "text";
+    value: string;
+    /** Offset of the node in the source. */
+    start: number;
+    /** Offset right after the node in the source. */
+    end: number;
+}
+
+/**
+ * A macro call, e.g. `{{random::a::b}}`.
+ */
+export interface MacroNode {
+    type: "macro";
+    /** Lowercased and trimmed name of the macro. */
+    name: string;
+    /** Arguments, each of them a sequence of nodes. */
+    args: TemplateNode[][];
+    start: number;
+    end: number;
+}
+
+/**
+ * A comment, e.g. `{{// note}}`. Rendered as an empty string.
+ */
+export interface CommentNode {
+    type: "comment";
+    value: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * A node of the template AST.
+ */
+export type TemplateNode = TextNode | MacroNode | CommentNode;
+
+/**
+ * Values available to the macros.
+ */
+export interface MacroContext {
+    /** Name of the character, for `{{char}}`. */
+    char?: string;
+    /** Name of the user, for `{{user}}`. */
+    user?: string;
+    /** The current time, for `{{date}}` and `{{time}}`. Default is the time of rendering. */
+    now?: Date;
+    /** Random number generator in `[0, 1)`, for `{{random}}`. Default is `Math.random`. */
+    random?: () => number;
+    /** Read-only variables, for `{{getvar::name}}`. */
+    variables?: Record<string, string | number | boolean>;
+}
+
+/**
+ * A built-in macro.
+ */
+interface MacroDefinition {
+    /** Minimum number of arguments. */
+    minArgs: number;
+    /** Maximum number of arguments. */
+    maxArgs: number;
+    render: (args: string[], context: MacroContext) => string;
+}
+
+const pad = (n: number): string => String(n).padStart(2, "0");
+
+/**
+ * Built-in macros.
+ */
+const macros: Record<string, MacroDefinition> = {
+    char: { minArgs: 0, maxArgs: 0, render: (_, c) => c.char ?? "" },
+    user: { minArgs: 0, maxArgs: 0, render: (_, c) => c.user ?? "" },
+    date: {
+        minArgs: 0,
+        maxArgs: 0,
+        render: (_, c) => {
+            const now = c.now ?? new Date();
+            return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+        },
+    },
+    time: {
+        minArgs: 0,
+        maxArgs: 0,
+        render: (_, c) => {
+            const now = c.now ?? new Date();
+            return `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+        },
+    },
+    random: {
+        minArgs: 1,
+        maxArgs: Number.POSITIVE_INFINITY,
+        render: (args, c) =>
+            args[Math.floor((c.random ?? Math.random)() * args.length)] ?? "",
+    },
+    getvar: {
+        minArgs: 1,
+        maxArgs: 1,
+        render: ([name], c) => {
+            const value = c.variables?.[name as string];
+            return value === undefined ? "" : String(value);
+        },
+    },
+};
+
+/**
+ * Names of the built-in macros.
+ */
+export const MACRO_NAMES: readonly string[] = Object.freeze(
+    Object.keys(macros),
+);
+
+/**
+ * Thrown when the template can't be parsed.
+ */
+export class MacroSyntaxError extends Error {
+    /** Offset of the error in the source. */
+    readonly start: number;
+    readonly end: number;
+
+    constructor(message: string, start: number, end: number) {
+        super(message);
+        this.name = "MacroSyntaxError";
+        this.start = start;
+        this.end = end;
+    }
+}
+
+/**
+ * Parses the template into an AST.
+ * @param source The template.
+ * @returns Nodes of the template.
+ * @throws {MacroSyntaxError} If a macro is not closed, or its name is not plain text.
+ * @example
+ * ```ts
+ * parseTemplate("Hi {{user}}");
+ * // [{ type: "text", value: "Hi ", ... }, { type: "macro", name: "user", args: [], ... }]
+ * ```
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+    let i = 0;
+
+    const parseSequence = (inMacro: boolean): TemplateNode[] => {
+        const nodes: TemplateNode[] = [];
+        let textStart = i;
+        const flush = () => {
+            if (i > textStart)
+                nodes.push({
+                    type: "text",
+                    value: source.slice(textStart, i),
+                    start: textStart,
+                    end: i,
+                });
+        };
+        while (i < source.length) {
+            if (source.startsWith("{{", i)) {
+                flush();
+                nodes.push(parseMacro());
+                textStart = i;
+            } else if (
+                inMacro &&
+                (source.startsWith("}}", i) || source.startsWith("::", i))
+            )
+                break;
+            else i++;
+        }
+        flush();
+        return nodes;
+    };
+
+    const parseMacro = (): TemplateNode => {
+        const start = i;
+        i += 2;
+        if (source.startsWith("//", i)) {
+            const close = source.indexOf("}}", i);
+            if (close < 0)
+                throw new MacroSyntaxError(
+                    "Unclosed comment",
+                    start,
+                    source.length,
+                );
+            i = close + 2;
+            return {
+                type: "comment",
+                value: source.slice(start + 4, close),
+                start,
+                end: i,
+            };
+        }
+
+        const segments: TemplateNode[][] = [];
+        for (;;) {
+            segments.push(parseSequence(true));
+            if (source.startsWith("::", i)) i += 2;
+            else if (source.startsWith("}}", i)) {
+                i += 2;
+                break;
+            } else
+                throw new MacroSyntaxError(
+                    "Unclosed macro",
+                    start,
+                    source.length,
+                );
+        }
+
+        const [name = [], ...args] = segments;
+        if (name.some((node) => node.type !== "text"))
+            throw new MacroSyntaxError(
+                "Macro name must be plain text",
+                start,
+                i,
+            );
+        return {
+            type: "macro",
+            name: name
+                .map((node) => (node as TextNode).value)
+                .join("")
+                .trim()
+                .toLowerCase(),
+            args,
+            start,
+            end: i,
+        };
+    };
+
+    return parseSequence(false);
+}
+
+/**
+ * Renders the AST with the context.
+ * Unknown macros and macros with a wrong number of arguments are rendered as their source.
+ * @param nodes The AST, from {@link parseTemplate}.
+ * @param context Values available to the macros.
+ * @param source The source of the AST, to render invalid macros as is. Default renders them as empty strings.
+ * @returns The rendered text.
+ */
+export function renderNodes(
+    nodes: readonly TemplateNode[],
+    context: MacroContext,
+    source: string = "",
+): string {
+    let output = "";
+    for (const node of nodes) {
+        if (node.type === "text") output += node.value;
+        else if (node.type === "macro") {
+            const macro = Object.hasOwn(macros, node.name)
+                ? macros[node.name]
+                : undefined;
+            if (
+                !macro ||
+                node.args.length < macro.minArgs ||
+                node.args.length > macro.maxArgs
+            ) {
+                output += source.slice(node.start, node.end);
+                continue;
+            }
+            output += macro.render(
+                node.args.map((arg) => renderNodes(arg, context, source)),
+                context,
+            );
+        }
+    }
+    return output;
+}
+
+/**
+ * Parses and renders the template.
+ * @param source The template.
+ * @param context Values available to the macros.
+ * @returns The rendered text.
+ * @throws {MacroSyntaxError} If the template can't be parsed.
+ * @example
+ * ```ts
+ * renderTemplate("{{char}} greets {{user}}.", { char: "Aris", user: "Sensei" });
+ * // "Aris greets Sensei."
+ * ```
+ */
+export function renderTemplate(source: string, context: MacroContext): string {
+    return renderNodes(parseTemplate(source), context, source);
+}
+
+/**
+ * A problem found in the template.
+ */
+export interface TemplateIssue {
+    /**
+     * - `syntax`: The template can't be parsed, so rendering it throws.
+     * - `unknown-macro`: The macro is not defined. Rendered as is.
+     * - `arguments`: The macro got a wrong number of arguments. Rendered as is.
+     */
+    kind: "syntax" | "unknown-macro" | "arguments";
+    message: string;
+    /** Offset of the problem in the source. */
+    start: number;
+    end: number;
+}
+
+const plural = (n: number, word: string): string =>
+    `${n} ${word}${n === 1 ? "" : "s"}`;
+
+/**
+ * Finds syntax errors, unknown macros and wrong numbers of arguments in the template.
+ * @param source The template.
+ * @returns The issues. Empty if the template is valid.
+ */
+export function validateTemplate(source: string): TemplateIssue[] {
+    let nodes: TemplateNode[];
+    try {
+        nodes = parseTemplate(source);
+    } catch (e) {
+        if (!(e instanceof MacroSyntaxError)) throw e;
+        return [
+            { kind: "syntax", message: e.message, start: e.start, end: e.end },
+        ];
+    }
+
+    const issues: TemplateIssue[] = [];
+    const visit = (nodes: readonly TemplateNode[]): void => {
+        for (const node of nodes) {
+            if (node.type !== "macro") continue;
+            const { start, end } = node;
+            const macro = Object.hasOwn(macros, node.name)
+                ? macros[node.name]
+                : undefined;
+            if (!macro)
+                issues.push({
+                    kind: "unknown-macro",
+                    message: `Unknown macro: ${node.name}`,
+                    start,
+                    end,
+                });
+            else if (
+                node.args.length < macro.minArgs ||
+                node.args.length > macro.maxArgs
+            )
+                issues.push({
+                    kind: "arguments",
+                    message: `Macro ${node.name} takes ${macro.minArgs === macro.maxArgs ? "" : "at least "}${plural(macro.minArgs, "argument")}, but got ${node.args.length}`,
+                    start,
+                    end,
+                });
+            for (const arg of node.args) visit(arg);
+        }
+    };
+    visit(nodes);
+    return issues;
+}
+
+/**
+ * A problem found in a scriptable field of the character.
+ */
+export interface CharacterTemplateIssue extends TemplateIssue {
+    /** JSON path of the field, e.g. `$.prompt.lorebook.data[0].content`. */
+    path: string;
+}
+
+/**
+ * Validates all scriptable fields of the character: `prompt.description`, `prompt.authorsNote`,
+ * and `content`, `regexPattern` and `text` of lorebook entries.
+ * @param character The character to validate.
+ * @returns The issues with the path of each field. Empty if all fields are valid.
+ */
+export function validateCharacterTemplates(
+    character: Character,
+): CharacterTemplateIssue[] {
+    const fields: [PropertyKey[], string | undefined][] = [
+        [["prompt", "description"], character.prompt.description],
+        [["prompt", "authorsNote"], character.prompt.authorsNote],
+    ];
+    for (const [i, entry] of character.prompt.lorebook.data.entries()) {
+        const base = ["prompt", "lorebook", "data", i];
+        fields.push([[...base, "content"], entry.content]);
+        for (const [j, condition] of entry.condition.entries()) {
+            if (condition.type === "regex_match")
+                fields.push([
+                    [...base, "condition", j, "regexPattern"],
+                    condition.regexPattern,
+                ]);
+            else if (condition.type === "plain_text_match")
+                fields.push([
+                    [...base, "condition", j, "text"],
+                    condition.text,
+                ]);
+        }
+    }
+
+    return fields.flatMap(([path, source]) =>
+        source === undefined
+            ? []
+            : validateTemplate(source).map((issue) => ({
+                  path: toJSONPath(path),
+                  ...issue,
+              })),
+    );
+}
@@ -0,0 +1,508 @@
+/**
+ * @fileoverview Human readable, localized messages for validation issues of the schemas.
+ * Issues are located by the `name` of the lorebook entry or asset instead of a raw index,
+ * and explained with the `description` of the field from `.meta()`.
+ *
+ * Messages are available in English, Korean and Japanese. Field descriptions come from
+ * the schemas, so they are always in English.
+ */
+import { z } from "zod";
+import { toJSONPath } from "@/report";
+import { AssetEntitySchema } from "@/types/v0/Character/Assets";
+import { CharacterSchema } from "@/types/v0/Character/Character";
+import { LorebookEntrySchema } from "@/types/v0/Character/Lorebook";
+import { isRecord } from "@/utils";
+
+/**
+ * Supported locales of the built-in catalogs.
+ */
+export type Locale = "en" | "ko" | "ja";
+
+/**
+ * Kind of an array element which is labeled by its `name`.
+ * - `lorebook-entry`: An entry of the character or chat lorebook.
+ * - `asset`: An asset of the character.
+ * - `item`: Any other element with a `name`.
+ */
+export type NamedItemKind = "lorebook-entry" | "asset" | "item";
+
+/**
+ * Messages of a locale.
+ */
+export interface MessageCatalog {
+    /** Label of the root value, used when the issue has an empty path. */
+    root: string;
+    /**
+     * Labels an array element by its name, e.g. `Lorebook entry "Greeting"`.
+     * @param kind The kind of the element.
+     * @param name The `name` of the element.
+     */
+    item(kind: NamedItemKind, name: string): string;
+    /**
+     * Describes what's wrong.
+     * @param issue The Zod issue.
+     * @param received Type of the value at the path, e.g. `string`, `array` or `undefined`.
+     */
+    problem(issue: z.core.$ZodIssue, received: string): string;
+    /**
+     * Joins the parts into the final message.
+     * @param location Where the problem is, e.g. `Lorebook entry "Greeting" › content`.
+     * @param problem The output of {@link MessageCatalog.problem}.
+     * @param description Description of the field from the schema, if any.
+     */
+    message(
+        location: string,
+        problem: string,
+        description: string | undefined,
+    ): string;
+}
+
+/**
+ * A validation issue with a human readable message.
+ */
+export interface FormattedIssue {
+    /** JSON path of the issue, e.g. `$.prompt.lorebook.data[3].content`. */
+    path: string;
+    /** Code of the Zod issue. */
+    code: z.core.$ZodIssue["code"];
+    /** Where the problem is, e.g. `Lorebook entry "Greeting" › content`. */
+    location: string;
+    /** Description of the field from the schema, if any. */
+    description?: string;
+    /** The full message. */
+    message: string;
+}
+
+/**
+ * Options for {@link formatIssues}.
+ */
+export interface FormatOptions {
+    /** A built-in locale or a custom catalog. Default is `en`. */
+    locale?: Locale | MessageCatalog;
+    /** The schema which produced the issues. Default is {@link CharacterSchema}. */
+    schema?: z.ZodType;
+}
+
+/**
+ * Returns the type name of the value, distinguishing `null`, arrays and binary data.
+ */
+function typeOf(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    if (value instanceof Uint8Array) return "Uint8Array";
+    return typeof value;
+}
+
+/**
+ * Returns the key of a `unique()` refinement, e.g. `id` of `Not unique key: id`.
+ */
+function uniqueKey(issue: z.core.$ZodIssue): string | null {
+    return issue.code === "custom"
+        ? (/^Not unique key: (.+)$/.exec(issue.message)?.[1] ?? null)
+        : null;
+}
+
+const list = (values: readonly unknown[]): string =>
+    values.map((v) => JSON.stringify(v) ?? String(v)).join(", ");
+
+/**
+ * Returns the unit of a size issue: characters of strings, items of arrays, or plain numbers.
+ */
+function unit(
+    issue: z.core.$ZodIssueTooSmall | z.core.$ZodIssueTooBig,
+): "characters" | "items" | "number" {
+    if (issue.origin === "string") return "characters";
+    if (issue.origin === "array" || issue.origin === "set") return "items";
+    return "number";
+}
+
+const enTypes: Record<string, string> = {
+    string: "a string",
+    number: "a number",
+    int: "an integer",
+    bigint: "a bigint",
+    boolean: "a boolean",
+    object: "an object",
+    array: "an array",
+    null: "null",
+    Uint8Array: "binary data",
+};
+
+const en: MessageCatalog = {
+    root: "(root)",
+    item: (kind, name) =>
+        kind === "lorebook-entry"
+            ? `Lorebook entry "${name}"`
+            : kind === "asset"
+              ? `Asset "${name}"`
+              : `"${name}"`,
+    problem(issue, received) {
+        const t = (type: string) => enTypes[type] ?? type;
+        switch (issue.code) {
+            case "invalid_type":
+                return received === "undefined"
+                    ? "Required"
+                    : `Expected ${t(issue.expected)}, but got ${t(received)}`;
+            case "too_small": {
+                const n = issue.minimum;
+                const at = issue.inclusive === false ? "more than" : "at least";
+                const u = unit(issue);
+                return u === "characters"
+                    ? `Must be ${at} ${n} characters long`
+                    : u === "items"
+                      ? `Must have ${at} ${n} items`
+                      : `Must be ${issue.inclusive === false ? "greater than" : "at least"} ${n}`;
+            }
+            case "too_big": {
+                const n = issue.maximum;
+                const at = issue.inclusive === false ? "less than" : "at most";
+                const u = unit(issue);
+                return u === "characters"
+                    ? `Must be ${at} ${n} characters long`
+                    : u === "items"
+                      ? `Must have ${issue.inclusive === false ? "fewer than" : "at most"} ${n} items`
+                      : `Must be ${at} ${n}`;
+            }
+            case "invalid_format":
+                return issue.format === "url"
+                    ? "Must be a valid URL"
+                    : issue.format === "regex"
+                      ? "Doesn't match the pattern"
+                      : `Must be a valid ${issue.format}`;
+            case "not_multiple_of":
+                return `Must be a multiple of ${issue.divisor}`;
+            case "unrecognized_keys":
+                return `Unknown keys: ${issue.keys.join(", ")}`;
+            case "invalid_union":
+                return "Doesn't match any of the allowed variants";
+            case "invalid_key":
+                return "Invalid key";
+            case "invalid_element":
+                return "Invalid element";
+            case "invalid_value":
+                return issue.values.length === 1
+                    ? `Must be ${list(issue.values)}`
+                    : `Must be one of ${list(issue.values)}`;
+            case "custom": {
+                const key = uniqueKey(issue);
+                return key ? `Duplicate ${key}` : issue.message;
+            }
+        }
+    },
+    message: (location, problem, description) =>
+        `${location}: ${problem}${description ? ` (${description})` : ""}`,
+};
+
+const koTypes: Record<string, string> = {
+    string: "문자열",
+    number: "숫자",
+    int: "정수",
+    bigint: "정수",
+    boolean: "불리언",
+    object: "객체",
+    array: "배열",
+    null: "null",
+    Uint8Array: "바이너리 데이터",
+};
+
+const ko: MessageCatalog = {
+    root: "(최상위)",
+    item: (kind, name) =>
+        kind === "lorebook-entry"
+            ? `로어북 항목 "${name}"`
+            : kind === "asset"
+              ? `에셋 "${name}"`
+              : `"${name}"`,
+    problem(issue, received) {
+        const t = (type: string) => koTypes[type] ?? type;
+        switch (issue.code) {
+            case "invalid_type":
+                return received === "undefined"
+                    ? "필수 항목입니다"
+                    : `${t(issue.expected)} 값이 필요하지만 ${t(received)} 값이 입력되었습니다`;
+            case "too_small": {
+                const n = issue.minimum;
+                const exclusive = issue.inclusive === false;
+                const u = unit(issue);
+                return u === "characters"
+                    ? `${n}자 ${exclusive ? "초과여야" : "이상이어야"} 합니다`
+                    : u === "items"
+                      ? `항목이 ${n}개 ${exclusive ? "초과여야" : "이상이어야"} 합니다`
+                      : exclusive
+                        ? `${n}보다 커야 합니다`
+                        : `${n} 이상이어야 합니다`;
+            }
+            case "too_big": {
+                const n = issue.maximum;
+                const exclusive = issue.inclusive === false;
+                const u = unit(issue);
+                return u === "characters"
+                    ? `${n}자 ${exclusive ? "미만이어야" : "이하여야"} 합니다`
+                    : u === "items"
+                      ? `항목이 ${n}개 ${exclusive ? "미만이어야" : "이하여야"} 합니다`
+                      : exclusive
+                        ? `${n}보다 작아야 합니다`
+                        : `${n} 이하여야 합니다`;
+            }
+            case "invalid_format":
+                return issue.format === "url"
+                    ? "올바른 URL이 아닙니다"
+                    : issue.format === "regex"
+                      ? "패턴과 일치하지 않습니다"
+                      : `올바른 ${issue.format} 형식이 아닙니다`;
+            case "not_multiple_of":
+                return `${issue.divisor}의 배수여야 합니다`;
+            case "unrecognized_keys":
+                return `알 수 없는 키: ${issue.keys.join(", ")}`;
+            case "invalid_union":
+                return "허용된 유형과 일치하지 않습니다";
+            case "invalid_key":
+                return "잘못된 키입니다";
+            case "invalid_element":
+                return "잘못된 항목입니다";
+            case "invalid_value":
+                return issue.values.length === 1
+                    ? `${list(issue.values)} 값이어야 합니다`
+                    : `다음 중 하나여야 합니다: ${list(issue.values)}`;
+            case "custom": {
+                const key = uniqueKey(issue);
+                return key ? `${key} 값이 중복됩니다` : issue.message;
+            }
+        }
+    },
+    message: (location, problem, description) =>
+        `${location}: ${problem}${description ? ` (${description})` : ""}`,
+};
+
+const jaTypes: Record<string, string> = {
+    string: "文字列",
+    number: "数値",
+    int: "整数",
+    bigint: "整数",
+    boolean: "真偽値",
+    object: "オブジェクト",
+    array: "配列",
+    null: "null",
+    Uint8Array: "バイナリデータ",
+};
+
+const ja: MessageCatalog = {
+    root: "(ルート)",
+    item: (kind, name) =>
+        kind === "lorebook-entry"
+            ? `ロアブック項目「${name}」`
+            : kind === "asset"
+              ? `アセット「${name}」`
+              : `「${name}」`,
+    problem(issue, received) {
+        const t = (type: string) => jaTypes[type] ?? type;
+        switch (issue.code) {
+            case "invalid_type":
+                return received === "undefined"
+                    ? "必須項目です"
+                    : `${t(issue.expected)}が必要ですが、${t(received)}が入力されました`;
+            case "too_small": {
+                const n = issue.minimum;
+                const exclusive = issue.inclusive === false;
+                const u = unit(issue);
+                return u === "characters"
+                    ? `${n}文字${exclusive ? "より長く" : "以上で"}ある必要があります`
+                    : u === "items"
+                      ? `${n}個${exclusive ? "より多くの" : "以上の"}項目が必要です`
+                      : `${n}${exclusive ? "より大きい" : "以上である"}必要があります`;
+            }
+            case "too_big": {
+                const n = issue.maximum;
+                const exclusive = issue.inclusive === false;
+                const u = unit(issue);
+                return u === "characters"
+                    ? `${n}文字${exclusive ? "未満" : "以下"}である必要があります`
+                    : u === "items"
+                      ? `項目は${n}個${exclusive ? "未満" : "以下"}である必要があります`
+                      : `${n}${exclusive ? "未満" : "以下"}である必要があります`;
+            }
+            case "invalid_format":
+                return issue.format === "url"
+                    ? "有効なURLではありません"
+                    : issue.format === "regex"
+                      ? "パターンに一致しません"
+                      : `有効な${issue.format}形式ではありません`;
+            case "not_multiple_of":
+                return `${issue.divisor}の倍数である必要があります`;
+            case "unrecognized_keys":
+                return `不明なキー: ${issue.keys.join(", ")}`;
+            case "invalid_union":
+                return "許可された種類のいずれにも一致しません";
+            case "invalid_key":
+                return "無効なキーです";
+            case "invalid_element":
+                return "無効な要素です";
+            case "invalid_value":
+                return issue.values.length === 1
+                    ? `${list(issue.values)}である必要があります`
+                    : `次のいずれかである必要があります: ${list(issue.values)}`;
+            case "custom": {
+                const key = uniqueKey(issue);
+                return key ? `${key}が重複しています` : issue.message;
+            }
+        }
+    },
+    message: (location, problem, description) =>
+        `${location}: ${problem}${description ? `(${description})` : ""}`,
+};
+
+/**
+ * Built-in message catalogs.
+ */
+export const messageCatalogs: Readonly<Record<Locale, MessageCatalog>> =
+    Object.freeze({ en, ko, ja });
+
+/**
+ * Strips wrappers like optional, default and pipe, and selects the union option
+ * which matches the value. Returns the description of the outermost wrapper which has one.
+ */
+function resolve(
+    schema: z.ZodType,
+    value: unknown,
+): { schema: z.ZodType; description: string | undefined } {
+    let description = schema.description;
+    for (;;) {
+        if (
+            schema instanceof z.ZodOptional ||
+            schema instanceof z.ZodNullable ||
+            schema instanceof z.ZodDefault ||
+            schema instanceof z.ZodPrefault ||
+            schema instanceof z.ZodNonOptional ||
+            schema instanceof z.ZodReadonly ||
+            schema instanceof z.ZodCatch ||
+            schema instanceof z.ZodLazy
+        )
+            schema = schema.unwrap() as z.ZodType;
+        else if (schema instanceof z.ZodPipe) schema = schema.in as z.ZodType;
+        else if (schema instanceof z.ZodUnion) {
+            const options = schema.options as readonly z.ZodType[];
+            const discriminator =
+                schema instanceof z.ZodDiscriminatedUnion
+                    ? schema.def.discriminator
+                    : undefined;
+            const option =
+                discriminator !== undefined && isRecord(value)
+                    ? options.find((option) => {
+                          const unwrapped = resolve(option, value).schema;
+                          return (
+                              unwrapped instanceof z.ZodObject &&
+                              unwrapped.shape[discriminator]?.safeParse(
+                                  value[discriminator],
+                              ).success
+                          );
+                      })
+                    : options.find((option) => option.safeParse(value).success);
+            if (!option) return { schema, description };
+            schema = option;
+        } else return { schema, description };
+        description ??= schema.description;
+    }
+}
+
+/**
+ * Returns the schema of the child at the segment, or undefined if it's unknown.
+ */
+function childSchema(
+    schema: z.ZodType,
+    segment: PropertyKey,
+): z.ZodType | undefined {
+    if (schema instanceof z.ZodObject)
+        return typeof segment === "string" &&
+            Object.hasOwn(schema.shape, segment)
+            ? (schema.shape[segment] as z.ZodType)
+            : undefined;
+    if (schema instanceof z.ZodArray) return schema.element as z.ZodType;
+    if (schema instanceof z.ZodRecord) return schema.valueType as z.ZodType;
+    if (schema instanceof z.ZodTuple && typeof segment === "number")
+        return (schema.def.items[segment] ?? schema.def.rest ?? undefined) as
+            | z.ZodType
+            | undefined;
+    return undefined;
+}
+
+/**
+ * Formats the path relative to a location, e.g. `condition[0].regexPattern`.
+ */
+const relativePath = (segments: readonly PropertyKey[]): string =>
+    toJSONPath(segments, "").replace(/^\./, "");
+
+/**
+ * Formats validation issues into human readable, localized messages.
+ * @param issues Issues of a failed parse, e.g. `error.issues` of `safeParse`.
+ * @param input The parsed input, to name lorebook entries and assets, and to tell the received type.
+ * @param options The locale and the schema.
+ * @returns The formatted issues, in the order of `issues`.
+ * @example
+ * ```ts
+ * const result = CharacterSchema.safeParse(data);
+ * if (!result.success)
+ *     for (const issue of formatIssues(result.error.issues, data, { locale: "ko" }))
+ *         console.log(issue.message);
+ * // 로어북 항목 "Greeting" › condition[0].regexPattern: 필수 항목입니다 (The regex pattern to match. Scriptable.)
+ * ```
+ */
+export function formatIssues(
+    issues: readonly z.core.$ZodIssue[],
+    input: unknown,
+    options: FormatOptions = {},
+): FormattedIssue[] {
+    const { locale = "en", schema: root = CharacterSchema } = options;
+    const catalog =
+        typeof locale === "string" ? messageCatalogs[locale] : locale;
+
+    return issues.map((issue) => {
+        let schema: z.ZodType | undefined = root;
+        let value = input;
+        let named: { label: string; index: number } | null = null;
+        for (const [i, segment] of issue.path.entries()) {
+            schema =
+                schema && childSchema(resolve(schema, value).schema, segment);
+            const next =
+                typeof value === "object" && value !== null
+                    ? (value as Record<PropertyKey, unknown>)[segment]
+                    : undefined;
+            if (
+                typeof segment === "number" &&
+                isRecord(next) &&
+                typeof next.name === "string" &&
+                next.name
+            ) {
+                const element = schema && resolve(schema, next).schema;
+                const kind: NamedItemKind =
+                    element === LorebookEntrySchema
+                        ? "lorebook-entry"
+                        : element === AssetEntitySchema
+                          ? "asset"
+                          : "item";
+                named = { label: catalog.item(kind, next.name), index: i };
+            }
+            value = next;
+        }
+
+        const rest = named ? issue.path.slice(named.index + 1) : issue.path;
+        const location = named
+            ? rest.length > 0
+                ? `${named.label} › ${relativePath(rest)}`
+                : named.label
+            : rest.length > 0
+              ? relativePath(rest)
+              : catalog.root;
+        const description = schema && resolve(schema, value).description;
+        return {
+            path: toJSONPath(issue.path),
+            code: issue.code,
+            location,
+            ...(description && { description }),
+            message: catalog.message(
+                location,
+                catalog.problem(issue, typeOf(value)),
+                description,
+            ),
+        };
+    });
+}
@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Migration of characters between specification versions.
+ * Every spec version has its schema in {@link characterMap}, and every version
+ * except the latest has a step in {@link migrationSteps} which migrates it to the next one.
+ */
+import type * as z from "zod";
+import { type CharacterMap, characterMap } from "@/index";
+import { MigrationReport, reportParseChanges } from "@/report";
+import { restoreUnknownKeys } from "@/utils";
+
+/**
+ * Known specification versions.
+ */
+export type SpecVersion = keyof typeof characterMap;
+
+/**
+ * Character type of the given specification version.
+ */
+export type CharacterOf<V extends SpecVersion> = CharacterMap[`${V}`];
+
+/**
+ * All known specification versions, in ascending order.
+ */
+export const specVersions = Object.keys(characterMap)
+    .map(Number)
+    .sort((a, b) => a - b) as SpecVersion[];
+
+/**
+ * The latest specification version.
+ */
+export const LATEST_SPEC_VERSION = Math.max(...specVersions) as SpecVersion;
+
+/**
+ * Latest character type.
+ */
+export type LatestCharacter = CharacterOf<typeof LATEST_SPEC_VERSION>;
+
+/**
+ * A single migration step, from `vN` to `vN+1`.
+ * The output is validated with the schema of `to`, so defaults can be omitted.
+ * Every field which is dropped, defaulted or coerced by the step should be added to the report.
+ */
+export interface MigrationStep<
+    From extends SpecVersion = SpecVersion,
+    To extends SpecVersion = SpecVersion,
+> {
+    from: From;
+    to: To;
+    migrate: (
+        character: CharacterOf<From>,
+        report: MigrationReport,
+    ) => z.input<(typeof characterMap)[To]>;
+}
+
+/**
+ * A migration step between any pair of known versions.
+ * Distributes over {@link SpecVersion}, so `from` and `to` stay tied to the types of `migrate`.
+ */
+export type AnyMigrationStep = {
+    [From in SpecVersion]: {
+        [To in SpecVersion]: MigrationStep<From, To>;
+    }[SpecVersion];
+}[SpecVersion];
+
+/**
+ * Registered migration steps. Append a step here when a new version is added.
+ */
+export const migrationSteps: readonly AnyMigrationStep[] = [];
+
+/**
+ * The result of a single migration step.
+ */
+export type MigrationStepResult = {
+    [From in SpecVersion]: {
+        [To in SpecVersion]: {
+            from: From;
+            to: To;
+            input: CharacterOf<From>;
+            output: CharacterOf<To>;
+            report: MigrationReport;
+        };
+    }[SpecVersion];
+}[SpecVersion];
+
+/**
+ * The result of {@link parseAnyCharacter}.
+ */
+export interface ParsedCharacter {
+    /** The character, migrated to the latest version. */
+    character: LatestCharacter;
+    /** The specification version of the input. */
+    fromVersion: SpecVersion;
+    /** Results of each applied migration step, in order. Empty if the input was already the latest. */
+    steps: MigrationStepResult[];
+    /** All changes made while parsing and migrating, including the ones of each step. */
+    report: MigrationReport;
+}
+
+/**
+ * Options for {@link parseAnyCharacter}.
+ */
+export interface ParseOptions {
+    /**
+     * If true, fields unknown to the schemas are kept at every level, instead of being stripped.
+     * Lets characters saved by newer clients survive a re-save. Default is false.
+     */
+    preserveUnknown?: boolean;
+}
+
+/**
+ * Thrown when the character can't be migrated, e.g. its version is unknown.
+ */
+export class MigrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "MigrationError";
+    }
+}
+
+/**
+ * Checks if the value is a known specification version.
+ * @param version The value to check.
+ * @returns True if the version has a schema in {@link characterMap}.
+ */
+export function isSpecVersion(version: unknown): version is SpecVersion {
+    return (
+        typeof version === "number" &&
+        (specVersions as number[]).includes(version)
+    );
+}
+
+/**
+ * Reads `specVersion` of the raw character data.
+ * @param data The raw character data.
+ * @returns The specification version.
+ * @throws {MigrationError} If `specVersion` is missing or unknown.
+ */
+export function readSpecVersion(data: unknown): SpecVersion {
+    if (typeof data !== "object" || data === null || !("specVersion" in data))
+        throw new MigrationError("Missing specVersion");
+    const { specVersion } = data;
+    if (isSpecVersion(specVersion)) return specVersion;
+    if (typeof specVersion === "number" && specVersion > LATEST_SPEC_VERSION)
+        throw new MigrationError(
+            `specVersion ${specVersion} is newer than the latest supported version ${LATEST_SPEC_VERSION}`,
+        );
+    throw new MigrationError(`Unknown specVersion: ${String(specVersion)}`);
+}
+
+/**
+ * Parses the character of any known specification version, and migrates it to the latest.
+ * The input is validated with the schema of its own version, and the output of each step
+ * is validated with the schema of the next version.
+ * Fields stripped or defaulted by the schemas are added to the report, as well as the changes of each step.
+ * @param data The raw character data.
+ * @param options Parse options.
+ * @returns The migrated character, with per-step results.
+ * @throws {MigrationError} If `specVersion` is missing or unknown, or a migration step is missing.
+ * @throws {import("zod").ZodError} If the input or any step output is invalid.
+ */
+export function parseAnyCharacter(
+    data: unknown,
+    options: ParseOptions = {},
+): ParsedCharacter {
+    const parse = (schema: z.ZodType, input: unknown): unknown => {
+        const output = schema.parse(input);
+        return options.preserveUnknown
+            ? restoreUnknownKeys(input, output)
+            : output;
+    };
+    const fromVersion = readSpecVersion(data);
+    const report = new MigrationReport();
+    let current = parse(characterMap[fromVersion], data);
+    reportParseChanges(data, current, report);
+    const steps: MigrationStepResult[] = [];
+
+    for (let version = fromVersion; version < LATEST_SPEC_VERSION; ) {
+        const step = (migrationSteps as readonly MigrationStep[]).find(
+            (s) => s.from === version,
+        );
+        if (!step)
+            throw new MigrationError(
+                `No migration step registered from v${version}`,
+            );
+        const stepReport = new MigrationReport();
+        const migrated = step.migrate(
+            current as CharacterOf<typeof step.from>,
+            stepReport,
+        );
+        const output = parse(characterMap[step.to], migrated);
+        reportParseChanges(migrated, output, stepReport);
+        report.merge(stepReport);
+        steps.push({
+            from: step.from,
+            to: step.to,
+            input: current,
+            output,
+            report: stepReport,
+        } as MigrationStepResult);
+        current = output;
+        version = step.to;
+    }
+
+    return {
+        character: current as LatestCharacter,
+        fromVersion,
+        steps,
+        report,
+    };
+}
@@ -0,0 +1,382 @@
+/**
+ * @fileoverview MIME type sniffing of binary files, and checks that the declared `mimeType`
+ * of assets, inlays and file messages matches their bytes.
+ *
+ * Only `Uint8Array` data is sniffed. URLs can't be checked without fetching them,
+ * so only the allowlist applies to them.
+ */
+import type * as z from "zod";
+import { type MigrationReport, toJSONPath } from "@/report";
+import { isRecord } from "@/utils";
+
+/**
+ * MIME types which are allowed in shared characters by default.
+ * Common web images, audio and video, which browsers can play without plugins.
+ */
+export const SHARE_MIME_TYPES: readonly string[] = Object.freeze([
+    "image/png",
+    "image/jpeg",
+    "image/gif",
+    "image/webp",
+    "image/avif",
+    "audio/mpeg",
+    "audio/wav",
+    "audio/ogg",
+    "audio/flac",
+    "audio/aac",
+    "audio/mp4",
+    "audio/webm",
+    "video/mp4",
+    "video/webm",
+    "video/ogg",
+]);
+
+/**
+ * Non-standard names of MIME types, and their canonical names.
+ */
+const ALIASES: Record<string, string> = {
+    "image/jpg": "image/jpeg",
+    "image/pjpeg": "image/jpeg",
+    "image/x-png": "image/png",
+    "image/x-ms-bmp": "image/bmp",
+    "image/vnd.microsoft.icon": "image/x-icon",
+    "audio/mp3": "audio/mpeg",
+    "audio/mpeg3": "audio/mpeg",
+    "audio/x-mpeg": "audio/mpeg",
+    "audio/x-wav": "audio/wav",
+    "audio/wave": "audio/wav",
+    "audio/vnd.wave": "audio/wav",
+    "audio/x-flac": "audio/flac",
+    "audio/x-aac": "audio/aac",
+    "audio/x-m4a": "audio/mp4",
+    "audio/m4a": "audio/mp4",
+    "audio/mid": "audio/midi",
+    "audio/x-midi": "audio/midi",
+    "video/avi": "video/x-msvideo",
+    "video/msvideo": "video/x-msvideo",
+};
+
+/**
+ * Containers whose magic bytes can't tell audio from video, or one variant from another.
+ * A declared type matches a detected type if both are in the same group.
+ */
+const CONTAINERS: readonly (readonly string[])[] = [
+    ["audio/ogg", "video/ogg", "application/ogg", "audio/opus"],
+    ["video/mp4", "audio/mp4", "video/x-m4v"],
+    ["video/webm", "audio/webm", "video/x-matroska", "audio/x-matroska"],
+    ["image/heic", "image/heif"],
+];
+
+/**
+ * How to handle a declared MIME type which doesn't match the bytes.
+ * - `reject`: Report the mismatch.
+ * - `correct`: Replace the declared type with the detected type.
+ */
+export type MimeMismatchHandling = "reject" | "correct";
+
+/**
+ * Options for {@link checkMimeTypes} and {@link refineMimeTypes}.
+ */
+export interface MimeCheckOptions {
+    /** How to handle mismatches. Default is `reject`. */
+    mismatch?: MimeMismatchHandling;
+    /**
+     * MIME types which are allowed, e.g. {@link SHARE_MIME_TYPES} for shared characters.
+     * Default allows any type.
+     */
+    allowlist?: readonly string[];
+}
+
+/**
+ * A problem found by {@link checkMimeTypes}.
+ */
+export interface MimeIssue {
+    /** JSON path of the `mimeType`, e.g. `$.assets.assets[0].mimeType`. */
+    path: string;
+    /**
+     * - `mismatch`: The declared type doesn't match the bytes.
+     * - `not-allowed`: The type is not in the allowlist.
+     */
+    kind: "mismatch" | "not-allowed";
+    /** The declared MIME type. */
+    declared: string;
+    /** The MIME type detected from the bytes, or null if unknown or not binary. */
+    detected: string | null;
+    message: string;
+}
+
+const ascii = (bytes: Uint8Array, offset: number, text: string): boolean =>
+    bytes.length >= offset + text.length &&
+    [...text].every((c, i) => bytes[offset + i] === c.charCodeAt(0));
+
+const magic = (bytes: Uint8Array, signature: readonly number[]): boolean =>
+    bytes.length >= signature.length &&
+    signature.every((b, i) => bytes[i] === b);
+
+/**
+ * Returns true if the text appears in the first bytes, for containers which
+ * declare the codec or the document type in their header.
+ */
+function inHeader(bytes: Uint8Array, text: string, length = 64): boolean {
+    const end = Math.min(bytes.length, length) - text.length;
+    for (let i = 0; i <= end; i++) if (ascii(bytes, i, text)) return true;
+    return false;
+}
+
+/**
+ * Detects the MIME type of the bytes from their magic bytes.
+ * Supports common images (PNG, JPEG, GIF, WebP, AVIF, HEIC, BMP, ICO, TIFF),
+ * audio (MP3, AAC, WAV, FLAC, Ogg, MIDI, M4A), video (MP4, QuickTime, 3GP, WebM, Matroska, AVI)
+ * and PDF.
+ * @param bytes The file content.
+ * @returns The canonical MIME type, or null if it's not recognized.
+ * @example
+ * ```ts
+ * sniffMimeType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0])); // "image/jpeg"
+ * ```
+ */
+export function sniffMimeType(bytes: Uint8Array): string | null {
+    if (magic(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+        return "image/png";
+    if (magic(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+    if (ascii(bytes, 0, "GIF87a") || ascii(bytes, 0, "GIF89a"))
+        return "image/gif";
+    if (ascii(bytes, 0, "RIFF")) {
+        if (ascii(bytes, 8, "WEBP")) return "image/webp";
+        if (ascii(bytes, 8, "WAVE")) return "audio/wav";
+        if (ascii(bytes, 8, "AVI ")) return "video/x-msvideo";
+        return null;
+    }
+    if (ascii(bytes, 4, "ftyp")) {
+        const brand = String.fromCharCode(...bytes.subarray(8, 12));
+        if (brand === "avif" || brand === "avis") return "image/avif";
+        if (/^he[iv][cx]$/.test(brand)) return "image/heic";
+        if (brand === "mif1" || brand === "msf1") return "image/heif";
+        if (brand === "M4A " || brand === "M4B ") return "audio/mp4";
+        if (brand === "qt  ") return "video/quicktime";
+        if (brand.startsWith("3g")) return "video/3gpp";
+        return "video/mp4";
+    }
+    if (magic(bytes, [0x1a, 0x45, 0xdf, 0xa3]))
+        return inHeader(bytes, "webm") ? "video/webm" : "video/x-matroska";
+    if (ascii(bytes, 0, "OggS"))
+        return inHeader(bytes, "theora") ? "video/ogg" : "audio/ogg";
+    if (ascii(bytes, 0, "fLaC")) return "audio/flac";
+    if (ascii(bytes, 0, "ID3")) return "audio/mpeg";
+    if (ascii(bytes, 0, "MThd")) return "audio/midi";
+    if (ascii(bytes, 0, "%PDF-")) return "application/pdf";
+    if (
+        magic(bytes, [0x49, 0x49, 0x2a, 0x00]) ||
+        magic(bytes, [0x4d, 0x4d, 0x00, 0x2a])
+    )
+        return "image/tiff";
+    if (magic(bytes, [0x00, 0x00, 0x01, 0x00])) return "image/x-icon";
+    if (ascii(bytes, 0, "BM") && bytes.length >= 26) return "image/bmp";
+    if (bytes.length >= 2 && bytes[0] === 0xff) {
+        const second = bytes[1] as number;
+        // ADTS has layer bits 00, MPEG audio frames have layer 1 to 3.
+        if ((second & 0xf6) === 0xf0) return "audio/aac";
+        if ((second & 0xe0) === 0xe0 && (second & 0x06) !== 0)
+            return "audio/mpeg";
+    }
+    return null;
+}
+
+/**
+ * Normalizes the MIME type: lowercases it, strips parameters and resolves aliases.
+ * @param mimeType The MIME type, e.g. `Image/JPG; q=1`.
+ * @returns The canonical MIME type, e.g. `image/jpeg`.
+ */
+export function normalizeMimeType(mimeType: string): string {
+    const essence = (mimeType.split(";")[0] ?? "").trim().toLowerCase();
+    return ALIASES[essence] ?? essence;
+}
+
+/**
+ * Returns true if the declared MIME type matches the detected one, considering aliases
+ * and containers which can hold either audio or video.
+ * @param declared The declared MIME type.
+ * @param detected The MIME type detected by {@link sniffMimeType}.
+ */
+export function isMimeTypeCompatible(
+    declared: string,
+    detected: string,
+): boolean {
+    const a = normalizeMimeType(declared);
+    const b = normalizeMimeType(detected);
+    return (
+        a === b ||
+        CONTAINERS.some((group) => group.includes(a) && group.includes(b))
+    );
+}
+
+/**
+ * A file found in the value: an object with `data` and `mimeType`.
+ */
+interface FileEntry {
+    /** Path of the object. */
+    path: PropertyKey[];
+    data: unknown;
+    mimeType: string;
+}
+
+/**
+ * Finds objects with `data` and string `mimeType` in the value, e.g. assets,
+ * inlays and file message content. Binary data is not traversed.
+ */
+function findFiles(value: unknown, path: PropertyKey[] = []): FileEntry[] {
+    if (Array.isArray(value))
+        return value.flatMap((item, i) => findFiles(item, [...path, i]));
+    if (!isRecord(value)) return [];
+    const files: FileEntry[] =
+        "data" in value && typeof value.mimeType === "string"
+            ? [{ path, data: value.data, mimeType: value.mimeType }]
+            : [];
+    for (const [key, child] of Object.entries(value))
+        if (key !== "data") files.push(...findFiles(child, [...path, key]));
+    return files;
+}
+
+/**
+ * Checks the MIME types of all files in the value.
+ */
+function collectMimeIssues(
+    value: unknown,
+    options: MimeCheckOptions,
+): (Omit<MimeIssue, "path"> & { path: PropertyKey[] })[] {
+    const { mismatch = "reject", allowlist } = options;
+    const allowed = allowlist && new Set(allowlist.map(normalizeMimeType));
+    const issues: (Omit<MimeIssue, "path"> & { path: PropertyKey[] })[] = [];
+    for (const file of findFiles(value)) {
+        const path = [...file.path, "mimeType"];
+        const declared = file.mimeType;
+        const detected =
+            file.data instanceof Uint8Array ? sniffMimeType(file.data) : null;
+        const compatible =
+            detected === null || isMimeTypeCompatible(declared, detected);
+        if (!compatible && mismatch === "reject")
+            issues.push({
+                path,
+                kind: "mismatch",
+                declared,
+                detected,
+                message: `Declared as ${declared}, but the data is ${detected}`,
+            });
+        const effective =
+            compatible || mismatch === "reject" ? declared : detected;
+        if (allowed && !allowed.has(normalizeMimeType(effective)))
+            issues.push({
+                path,
+                kind: "not-allowed",
+                declared,
+                detected,
+                message: `${effective} is not allowed`,
+            });
+    }
+    return issues;
+}
+
+/**
+ * Checks that the declared MIME types of the files in the value match their bytes,
+ * and are in the allowlist. Files are objects with `data` and `mimeType`, e.g. assets
+ * of a character, inlays of a message and file message content.
+ * @param value A character, a message, or any value containing files.
+ * @param options How to handle mismatches, and the allowlist.
+ * With `correct`, mismatches are not reported, and the detected type is checked against the allowlist.
+ * @returns The issues. Empty if all files are fine.
+ * @example
+ * ```ts
+ * const issues = checkMimeTypes(character, { allowlist: SHARE_MIME_TYPES });
+ * ```
+ */
+export function checkMimeTypes(
+    value: unknown,
+    options: MimeCheckOptions = {},
+): MimeIssue[] {
+    return collectMimeIssues(value, options).map((issue) => ({
+        ...issue,
+        path: toJSONPath(issue.path),
+    }));
+}
+
+/**
+ * Replaces declared MIME types which don't match the bytes with the detected types.
+ * Files whose type can't be detected are kept as is.
+ * @param value A character, a message, or any value containing files.
+ * @param report If given, each correction is added as a `coerced` entry.
+ * @returns A copy of the value with corrected MIME types. The value itself is not modified.
+ */
+export function correctMimeTypes<T>(value: T, report?: MigrationReport): T {
+    const visit = (node: unknown, path: PropertyKey[]): unknown => {
+        if (Array.isArray(node)) {
+            const mapped = node.map((item, i) => visit(item, [...path, i]));
+            return mapped.some((item, i) => item !== node[i]) ? mapped : node;
+        }
+        if (!isRecord(node)) return node;
+        let output = node;
+        for (const [key, child] of Object.entries(node)) {
+            if (key === "data") continue;
+            const mapped = visit(child, [...path, key]);
+            if (mapped !== child) output = { ...output, [key]: mapped };
+        }
+        if (
+            node.data instanceof Uint8Array &&
+            typeof node.mimeType === "string"
+        ) {
+            const detected = sniffMimeType(node.data);
+            if (
+                detected !== null &&
+                !isMimeTypeCompatible(node.mimeType, detected)
+            ) {
+                report?.info(
+                    toJSONPath([...path, "mimeType"]),
+                    "coerced",
+                    "MIME type was corrected to match the data",
+                    { before: node.mimeType, after: detected },
+                );
+                output = { ...output, mimeType: detected };
+            }
+        }
+        return output;
+    };
+    return visit(value, []) as T;
+}
+
+/**
+ * Adds MIME type checks to a schema, as an optional refinement.
+ * With `correct`, mismatched types are replaced by the detected types in the output.
+ * @param schema The schema, e.g. `CharacterSchema` or `MessageSchema`.
+ * @param options How to handle mismatches, and the allowlist.
+ * @returns The refined schema.
+ * @example
+ * ```ts
+ * const ShareableCharacterSchema = refineMimeTypes(CharacterSchema, {
+ *     mismatch: "reject",
+ *     allowlist: SHARE_MIME_TYPES,
+ * });
+ * ```
+ */
+export function refineMimeTypes<T extends z.ZodType>(
+    schema: T,
+    options: MimeCheckOptions = {},
+): T {
+    const corrected =
+        options.mismatch === "correct"
+            ? schema.overwrite((value) => correctMimeTypes(value))
+            : schema;
+    return corrected.superRefine((value, ctx) => {
+        for (const {
+            path,
+            kind,
+            message,
+            declared,
+            detected,
+        } of collectMimeIssues(value, options))
+            ctx.addIssue({
+                code: "custom",
+                message,
+                path,
+                params: { kind, declared, detected },
+            });
+    }) as T;
+}
@@ -0,0 +1,358 @@
+/**
+ * @fileoverview Reading and writing character data embedded in PNG files.
+ * Character sharing sites distribute characters as PNG images, with the card stored in text chunks.
+ * - `arisutalk`: The transport payload of {@link exportCharacter}, base64 encoded.
+ * - `ccv3`: Character Card V3 JSON, base64 encoded.
+ * - `chara`: Character Card V2 JSON, base64 encoded.
+ */
+import { exportCharacterCard } from "@/card";
+import type { MigrationReport } from "@/report";
+import { decompressData, exportCharacter } from "@/transport";
+import type { Character } from "@/types/v0/Character/Character";
+import { fromBase64, toBase64 } from "@/utils";
+
+/**
+ * The 8-byte signature at the start of every PNG file.
+ */
+export const PNG_SIGNATURE = Object.freeze([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+] as const);
+
+/**
+ * Text chunk keywords used to embed characters, by format.
+ */
+export const PNG_KEYWORDS = Object.freeze({
+    arisutalk: "arisutalk",
+    ccv3: "ccv3",
+    ccv2: "chara",
+} as const);
+
+/**
+ * Format of the character embedded in PNG.
+ */
+export type PNGCharacterFormat = keyof typeof PNG_KEYWORDS;
+
+/**
+ * Transparent 1x1 PNG, used as the carrier image when the character has no PNG avatar.
+ */
+const FALLBACK_PNG =
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAAC0lEQVR42mNgAAIAAAUAAen63NgAAAAASUVORK5CYII=";
+
+/**
+ * A single PNG chunk.
+ */
+export interface PNGChunk {
+    /** Four-letter chunk type, e.g. `IHDR` or `tEXt`. */
+    type: string;
+    data: Uint8Array;
+}
+
+/**
+ * Thrown when the PNG is malformed.
+ */
+export class PNGError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PNGError";
+    }
+}
+
+const crcTable = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++)
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * Calculates CRC-32 of the bytes, as used by PNG chunks.
+ */
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of bytes)
+        crc = (crcTable[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+const latin1 = new TextDecoder("latin1");
+const utf8 = new TextDecoder("utf-8");
+
+function encodeLatin1(text: string): Uint8Array {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        if (code > 0xff)
+            throw new PNGError("tEXt chunk only supports Latin-1 text");
+        bytes[i] = code;
+    }
+    return bytes;
+}
+
+/**
+ * Checks if the bytes start with {@link PNG_SIGNATURE}.
+ * @param bytes The bytes to check.
+ * @returns True if the signature matches.
+ */
+export function isPNG(bytes: Uint8Array): boolean {
+    return PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Splits the PNG into chunks. CRC of each chunk is verified.
+ * @param png The PNG file content.
+ * @returns The chunks, in order. Includes `IHDR` and `IEND`.
+ * @throws {PNGError} If the signature, a chunk length or a CRC is invalid.
+ */
+export function readPNGChunks(png: Uint8Array): PNGChunk[] {
+    if (!isPNG(png)) throw new PNGError("Not a PNG file");
+    const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+    const chunks: PNGChunk[] = [];
+    let offset: number = PNG_SIGNATURE.length;
+
+    while (offset < png.length) {
+        if (offset + 12 > png.length) throw new PNGError("Truncated chunk");
+        const length = view.getUint32(offset);
+        const end = offset + 12 + length;
+        if (end > png.length) throw new PNGError("Truncated chunk");
+
+        const typeAndData = png.subarray(offset + 4, offset + 8 + length);
+        if (crc32(typeAndData) !== view.getUint32(end - 4))
+            throw new PNGError("CRC mismatch");
+        const type = latin1.decode(typeAndData.subarray(0, 4));
+        chunks.push({ type, data: png.slice(offset + 8, offset + 8 + length) });
+        offset = end;
+        if (type === "IEND") break;
+    }
+    if (chunks.at(-1)?.type !== "IEND")
+        throw new PNGError("Missing IEND chunk");
+    return chunks;
+}
+
+/**
+ * Joins the chunks into a PNG file. CRC of each chunk is calculated.
+ * @param chunks The chunks, in order. Must start with `IHDR` and end with `IEND`.
+ * @returns The PNG file content.
+ */
+export function writePNGChunks(chunks: readonly PNGChunk[]): Uint8Array {
+    const size = chunks.reduce<number>(
+        (n, c) => n + 12 + c.data.length,
+        PNG_SIGNATURE.length,
+    );
+    const out = new Uint8Array(size);
+    const view = new DataView(out.buffer);
+    out.set(PNG_SIGNATURE, 0);
+    let offset: number = PNG_SIGNATURE.length;
+
+    for (const { type, data } of chunks) {
+        view.setUint32(offset, data.length);
+        out.set(encodeLatin1(type), offset + 4);
+        out.set(data, offset + 8);
+        const crc = crc32(out.subarray(offset + 4, offset + 8 + data.length));
+        view.setUint32(offset + 8 + data.length, crc);
+        offset += 12 + data.length;
+    }
+    return out;
+}
+
+/**
+ * Reads the keyword of a `tEXt` or `iTXt` chunk.
+ */
+function readKeyword(chunk: PNGChunk): string | null {
+    if (chunk.type !== "tEXt" && chunk.type !== "iTXt") return null;
+    const nul = chunk.data.indexOf(0);
+    return nul > 0 ? latin1.decode(chunk.data.subarray(0, nul)) : null;
+}
+
+/**
+ * Reads the text of a `tEXt` or `iTXt` chunk.
+ * @throws {PNGError} If the chunk is malformed, or its compressed text can't be inflated.
+ */
+async function readText(chunk: PNGChunk): Promise<string> {
+    const nul = chunk.data.indexOf(0);
+    if (chunk.type === "tEXt")
+        return latin1.decode(chunk.data.subarray(nul + 1));
+
+    // iTXt: keyword, compression flag, compression method, language tag, translated keyword, text
+    const compressed = chunk.data[nul + 1] === 1;
+    const languageEnd = chunk.data.indexOf(0, nul + 3);
+    const translatedEnd = chunk.data.indexOf(0, languageEnd + 1);
+    if (languageEnd < 0 || translatedEnd < 0)
+        throw new PNGError("Malformed iTXt chunk");
+    const text = chunk.data.subarray(translatedEnd + 1);
+    if (!compressed) return utf8.decode(text);
+    try {
+        // Compression method 0 is zlib, which is `deflate` of DecompressionStream.
+        return utf8.decode(await decompressData(text, "deflate"));
+    } catch (e) {
+        throw new PNGError(
+            `Malformed compressed iTXt chunk: ${(e as Error).message}`,
+        );
+    }
+}
+
+/**
+ * Reads the `tEXt` and `iTXt` chunks of the PNG.
+ * If a keyword appears more than once, the first one wins.
+ * @param png The PNG file content.
+ * @param keywords If given, only the chunks with these keywords are decoded, and others are skipped.
+ * @returns Texts by keyword.
+ * @throws {PNGError} If the PNG or a decoded chunk is malformed.
+ */
+export async function readPNGText(
+    png: Uint8Array,
+    keywords?: readonly string[],
+): Promise<Map<string, string>> {
+    const texts = new Map<string, string>();
+    for (const chunk of readPNGChunks(png)) {
+        const keyword = readKeyword(chunk);
+        if (keyword === null || texts.has(keyword)) continue;
+        if (keywords && !keywords.includes(keyword)) continue;
+        texts.set(keyword, await readText(chunk));
+    }
+    return texts;
+}
+
+/**
+ * Lists keywords of all `tEXt` and `iTXt` chunks of the PNG, without decoding the texts.
+ * @param png The PNG file content.
+ * @returns The keywords, in order.
+ * @throws {PNGError} If the PNG is malformed.
+ */
+export function readPNGKeywords(png: Uint8Array): string[] {
+    return readPNGChunks(png).flatMap((chunk) => readKeyword(chunk) ?? []);
+}
+
+/**
+ * Writes a `tEXt` chunk into the PNG, right before `IEND`.
+ * Existing `tEXt`/`iTXt` chunks with the same keyword are removed.
+ * @param png The PNG file content.
+ * @param keyword The keyword. Latin-1, 1 to 79 characters.
+ * @param text The text. Latin-1 only, so encode other text with base64.
+ * @returns The new PNG file content.
+ * @throws {PNGError} If the PNG is malformed, or the keyword or text is not Latin-1.
+ */
+export function writePNGText(
+    png: Uint8Array,
+    keyword: string,
+    text: string,
+): Uint8Array {
+    if (keyword.length < 1 || keyword.length > 79 || keyword.includes("\0"))
+        throw new PNGError(`Invalid keyword: ${keyword}`);
+    const chunks = readPNGChunks(png).filter(
+        (chunk) => readKeyword(chunk) !== keyword,
+    );
+    const data = encodeLatin1(`${keyword}\0${text}`);
+    chunks.splice(chunks.length - 1, 0, { type: "tEXt", data });
+    return writePNGChunks(chunks);
+}
+
+/**
+ * Options for {@link embedCharacterInPNG}.
+ */
+export interface EmbedOptions {
+    /** Format of the embedded character. Default is `arisutalk`. */
+    format?: Exclude<PNGCharacterFormat, "ccv2">;
+    /**
+     * The carrier image, used when the character has no PNG avatar.
+     * If omitted, a transparent 1x1 image is used.
+     */
+    carrier?: Uint8Array;
+    /** If given, changes made while converting to Character Card V3 are added to this report. */
+    report?: MigrationReport;
+}
+
+/**
+ * Finds the avatar asset of the character, if it's a PNG stored as binary.
+ * @param character The character.
+ * @returns The avatar PNG, or undefined.
+ */
+export function findAvatarPNG(character: Character): Uint8Array | undefined {
+    const avatar = character.assets.assets.find(
+        (asset) => asset.name === character.avatarUrl,
+    );
+    if (avatar?.data instanceof Uint8Array && isPNG(avatar.data))
+        return avatar.data;
+    return undefined;
+}
+
+/**
+ * Embeds the character into a PNG image.
+ * The avatar asset named by `avatarUrl` is used as the carrier image when it's a binary PNG.
+ * @param character The character to embed.
+ * @param options Embed options.
+ * @returns The PNG file content.
+ * @throws {PNGError} If the carrier image is not a valid PNG.
+ */
+export async function embedCharacterInPNG(
+    character: Character,
+    options: EmbedOptions = {},
+): Promise<Uint8Array> {
+    const avatar = findAvatarPNG(character);
+    const carrier = avatar ?? options.carrier ?? fromBase64(FALLBACK_PNG);
+    const format = options.format ?? "arisutalk";
+
+    if (format === "arisutalk")
+        return writePNGText(
+            carrier,
+            PNG_KEYWORDS.arisutalk,
+            toBase64(await exportCharacter(character)),
+        );
+
+    const { card, report } = exportCharacterCard(character);
+    options.report?.merge(report);
+    // The PNG itself is the main icon, so the avatar doesn't have to be embedded again.
+    if (avatar)
+        for (const asset of card.data.assets ?? [])
+            if (asset.type === "icon" && asset.name === "main")
+                asset.uri = "ccdefault:";
+    const json = new TextEncoder().encode(JSON.stringify(card));
+    return writePNGText(carrier, PNG_KEYWORDS.ccv3, toBase64(json));
+}
+
+/**
+ * A character extracted by {@link extractCharacterFromPNG}.
+ */
+export type ExtractedPNGCharacter =
+    | {
+          format: "arisutalk";
+          /** The transport payload. Pass it to `importCharacter`. */
+          bytes: Uint8Array;
+      }
+    | {
+          format: "ccv3" | "ccv2";
+          /** The card, parsed from JSON. Pass it to `importCharacterCard`. */
+          card: unknown;
+          /** The PNG itself, which is the main icon of the card. */
+          image: Uint8Array;
+      };
+
+/**
+ * Extracts the character embedded in the PNG.
+ * If more than one format is embedded, `arisutalk` wins over `ccv3`, which wins over `ccv2`.
+ * Text chunks with other keywords are never decoded.
+ * @param png The PNG file content.
+ * @returns The embedded character, or null if there's none.
+ * @throws {PNGError} If the PNG or a chunk of the character is malformed.
+ * @throws {SyntaxError} If the embedded card is not valid JSON.
+ */
+export async function extractCharacterFromPNG(
+    png: Uint8Array,
+): Promise<ExtractedPNGCharacter | null> {
+    const texts = await readPNGText(png, Object.values(PNG_KEYWORDS));
+
+    const transport = texts.get(PNG_KEYWORDS.arisutalk);
+    if (transport !== undefined)
+        return { format: "arisutalk", bytes: fromBase64(transport) };
+
+    for (const format of ["ccv3", "ccv2"] as const) {
+        const text = texts.get(PNG_KEYWORDS[format]);
+        if (text === undefined) continue;
+        const json = utf8.decode(fromBase64(text));
+        return { format, card: JSON.parse(json), image: png };
+    }
+    return null;
+}
@@ -0,0 +1,190 @@
+/**
+ * @fileoverview Assembly of the messages sent to the model, from the character and the chat history.
+ *
+ * The prompt is built in this order:
+ * 1. A system message with `prompt.description` and the active lorebook entries.
+ * 2. Text messages of the history, oldest first. Older messages are dropped to fit the token budget.
+ * 3. `prompt.authorsNote` as a system message, right before the last message of the history.
+ *
+ * Scriptable fields are rendered with the macro language, and `request` replace hooks
+ * are applied to every message at last.
+ */
+import type * as z from "zod";
+import { type ActivationResult, activateLorebook } from "@/lorebook";
+import { type MacroContext, renderTemplate } from "@/macro";
+import { applyReplaceHooks } from "@/replace";
+import { heuristicTokenizer, type Tokenizer } from "@/tokenizer";
+import type { Character } from "@/types/v0/Character/Character";
+import type { Chat } from "@/types/v0/Character/Chat";
+import type { LorebookCondition } from "@/types/v0/Character/Lorebook";
+import type { Message, RoleSchema } from "@/types/v0/Character/Message";
+
+/**
+ * Role of a prompt message.
+ */
+export type PromptRole = z.infer<typeof RoleSchema>;
+
+/**
+ * A message to send to the model.
+ */
+export interface PromptMessage {
+    role: PromptRole;
+    content: string;
+}
+
+/**
+ * Options for {@link buildPrompt}.
+ */
+export interface PromptOptions {
+    /** Name of the user, for `{{user}}`. */
+    user?: string;
+    /** Additional macro context. `char` and `user` are set by {@link buildPrompt}. */
+    macro?: Omit<MacroContext, "char" | "user">;
+    /** Counts tokens of the lorebook and the history. Default is {@link heuristicTokenizer}. */
+    tokenizer?: Tokenizer;
+    /**
+     * Token budget of the whole prompt. Oldest history messages are dropped until the prompt fits.
+     * Messages other than the history are always kept. Default is no limit.
+     */
+    maxTokens?: number;
+    /** Number of recent history messages scanned for lorebook conditions. Default is all of them. */
+    scanDepth?: number;
+}
+
+/**
+ * The input of {@link buildPrompt}.
+ */
+export interface BuildPromptInput {
+    character: Character;
+    chat: Chat;
+    /** History of the chat, oldest first. Messages of other chats and file messages are ignored. */
+    messages: readonly Message[];
+    options?: PromptOptions;
+}
+
+/**
+ * The result of {@link buildPrompt}.
+ */
+export interface BuiltPrompt {
+    /** Messages to send to the model. */
+    messages: PromptMessage[];
+    /** Active lorebook entries of the character and the chat, the reasons, and entries which failed. */
+    lorebook: ActivationResult;
+    /** Total token count of the messages. */
+    tokens: number;
+    /** Number of history messages dropped by the token budget. */
+    truncated: number;
+}
+
+/**
+ * Renders the scriptable fields of the lorebook condition.
+ */
+function renderCondition(
+    condition: LorebookCondition,
+    context: MacroContext,
+): LorebookCondition {
+    return condition.type === "regex_match"
+        ? {
+              ...condition,
+              regexPattern: renderTemplate(condition.regexPattern, context),
+          }
+        : condition.type === "plain_text_match"
+          ? { ...condition, text: renderTemplate(condition.text, context) }
+          : condition;
+}
+
+/**
+ * Builds the messages to send to the model.
+ * Lorebook entries which can't be rendered are skipped, and reported in `lorebook.failed`.
+ * @param input The character, the chat, its history and options.
+ * @returns Role-tagged messages, with the active lorebook entries and the token count.
+ * @throws {import("@/macro").MacroSyntaxError} If the description or the authors note can't be parsed.
+ * @throws {import("@/replace").ReplaceHookError} If a pattern of `request` hooks is invalid.
+ * @example
+ * ```ts
+ * const { messages } = buildPrompt({
+ *     character,
+ *     chat,
+ *     messages: history,
+ *     options: { user: "Sensei", maxTokens: 8000, tokenizer },
+ * });
+ * ```
+ */
+export function buildPrompt(input: BuildPromptInput): BuiltPrompt {
+    const { character, chat, options = {} } = input;
+    const tokenizer = options.tokenizer ?? heuristicTokenizer;
+    const context: MacroContext = {
+        ...options.macro,
+        char: character.name,
+        ...(options.user !== undefined && { user: options.user }),
+    };
+    const hooks = character.executables.replaceHooks;
+    const finalize = (role: PromptRole, content: string): PromptMessage => ({
+        role,
+        content: applyReplaceHooks("request", content, hooks).text,
+    });
+
+    const texts = input.messages.flatMap((m) =>
+        m.chatId === chat.id && m.content.type === "text"
+            ? [{ role: m.role, content: m.content.data }]
+            : [],
+    );
+    const history = texts.map((m) => finalize(m.role, m.content));
+    const scanDepth = Math.min(options.scanDepth ?? texts.length, texts.length);
+    const lorebook = activateLorebook(
+        {
+            config: character.prompt.lorebook.config,
+            data: [...character.prompt.lorebook.data, ...(chat.lorebook ?? [])],
+        },
+        {
+            text: texts
+                .slice(texts.length - scanDepth)
+                .map((m) => m.content)
+                .join("\n"),
+            tokenizer,
+            render: {
+                condition: (c) => renderCondition(c, context),
+                content: (content) => renderTemplate(content, context),
+            },
+        },
+    );
+
+    const system = finalize(
+        "system",
+        [
+            renderTemplate(character.prompt.description, context),
+            ...lorebook.entries.map((e) => e.entry.content),
+        ]
+            .filter(Boolean)
+            .join("\n\n"),
+    );
+    const authorsNote = character.prompt.authorsNote
+        ? finalize(
+              "system",
+              renderTemplate(character.prompt.authorsNote, context),
+          )
+        : null;
+
+    let tokens =
+        tokenizer.count(system.content) +
+        (authorsNote ? tokenizer.count(authorsNote.content) : 0);
+    const budget = options.maxTokens ?? Number.POSITIVE_INFINITY;
+    let kept = 0;
+    for (let i = history.length - 1; i >= 0; i--) {
+        const count = tokenizer.count((history[i] as PromptMessage).content);
+        if (tokens + count > budget) break;
+        tokens += count;
+        kept++;
+    }
+    const recent = history.slice(history.length - kept);
+
+    const messages = [system, ...recent];
+    if (authorsNote)
+        messages.splice(Math.max(1, messages.length - 1), 0, authorsNote);
+    return {
+        messages,
+        lorebook,
+        tokens,
+        truncated: history.length - kept,
+    };
+}
@@ -0,0 +1,752 @@
+/**
+ * @fileoverview Static analysis of regexes for catastrophic backtracking (ReDoS).
+ * Lorebook `regexPattern` and replace hook `input` come from downloaded characters,
+ * and run on every message, so a single bad pattern can freeze the client.
+ *
+ * The analysis is heuristic. It finds the common shapes of vulnerable patterns:
+ * - Exponential: a quantified part which can match the same text in many ways inside
+ *   another quantifier, e.g. `(a+)+`, `(\w+\s?)*`, `(\w|\d)+`.
+ * - Polynomial: two overlapping quantifiers in a row, e.g. `\d+\d+`, `.*,.*`, `\w+\s*\w+`.
+ *
+ * It doesn't flag quadratic rescanning of unanchored patterns, e.g. `\s+$`,
+ * and may flag patterns which are safe in practice.
+ */
+import type * as z from "zod";
+import { toJSONPath } from "@/report";
+import type { Character } from "@/types/v0/Character/Character";
+
+/**
+ * Backtracking risk of a regex, from the lowest.
+ */
+export type ReDoSRisk = "safe" | "polynomial" | "exponential";
+
+const riskOrder: Record<ReDoSRisk, number> = {
+    safe: 0,
+    polynomial: 1,
+    exponential: 2,
+};
+
+/**
+ * A vulnerable part of the regex.
+ */
+export interface ReDoSFinding {
+    risk: Exclude<ReDoSRisk, "safe">;
+    message: string;
+    /** Offset of the vulnerable part in the pattern. */
+    start: number;
+}
+
+/**
+ * The result of {@link analyzeRegex}.
+ */
+export interface ReDoSAnalysis {
+    /** The highest risk of the findings. */
+    risk: ReDoSRisk;
+    findings: ReDoSFinding[];
+}
+
+/**
+ * Quantifiers with a maximum at or above this are treated as unbounded, e.g. `{1,100}`.
+ */
+const UNBOUNDED = 16;
+
+/**
+ * A set of code points, as sorted and disjoint inclusive ranges.
+ */
+type CharSet = [number, number][];
+
+const MAX_CODE_POINT = 0x10ffff;
+const ALL: CharSet = [[0, MAX_CODE_POINT]];
+const DIGIT: CharSet = [[0x30, 0x39]];
+const WORD: CharSet = [
+    [0x30, 0x39],
+    [0x41, 0x5a],
+    [0x5f, 0x5f],
+    [0x61, 0x7a],
+];
+const SPACE: CharSet = [
+    [0x09, 0x0d],
+    [0x20, 0x20],
+    [0xa0, 0xa0],
+    [0x1680, 0x1680],
+    [0x2000, 0x200a],
+    [0x2028, 0x2029],
+    [0x202f, 0x202f],
+    [0x205f, 0x205f],
+    [0x3000, 0x3000],
+    [0xfeff, 0xfeff],
+];
+const LINE_TERMINATOR: CharSet = [
+    [0x0a, 0x0a],
+    [0x0d, 0x0d],
+    [0x2028, 0x2029],
+];
+
+function union(...sets: CharSet[]): CharSet {
+    const ranges = sets.flat().sort((a, b) => a[0] - b[0]);
+    const output: CharSet = [];
+    for (const [from, to] of ranges) {
+        const last = output.at(-1);
+        if (last && from <= last[1] + 1) last[1] = Math.max(last[1], to);
+        else output.push([from, to]);
+    }
+    return output;
+}
+
+function complement(set: CharSet): CharSet {
+    const output: CharSet = [];
+    let next = 0;
+    for (const [from, to] of union(set)) {
+        if (from > next) output.push([next, from - 1]);
+        next = to + 1;
+    }
+    if (next <= MAX_CODE_POINT) output.push([next, MAX_CODE_POINT]);
+    return output;
+}
+
+function intersects(a: CharSet, b: CharSet): boolean {
+    return a.some(([aFrom, aTo]) =>
+        b.some(([bFrom, bTo]) => aFrom <= bTo && bFrom <= aTo),
+    );
+}
+
+/**
+ * Adds the other case of ASCII letters, for the `i` flag.
+ */
+function caseFold(set: CharSet): CharSet {
+    const extra: CharSet = [];
+    for (const [from, to] of set)
+        for (const [lower, upper] of [
+            [0x61, 0x41],
+            [0x41, 0x61],
+        ] as const) {
+            const start = Math.max(from, lower);
+            const end = Math.min(to, lower + 25);
+            if (start <= end)
+                extra.push([start - lower + upper, end - lower + upper]);
+        }
+    return union(set, extra);
+}
+
+/**
+ * Approximates a Unicode property escape. Only ASCII is exact, and
+ * every non-ASCII character is assumed to have the property.
+ * @param name The property, e.g. `L` or `Script=Hangul`.
+ */
+function unicodeProperty(name: string): CharSet | "any" {
+    const nonASCII: CharSet = [[0x80, MAX_CODE_POINT]];
+    if (/^(?:L|Letter|Alpha(?:betic)?|Script(?:_Extensions)?=.*)$/.test(name))
+        return union(
+            [
+                [0x41, 0x5a],
+                [0x61, 0x7a],
+            ],
+            nonASCII,
+        );
+    if (/^(?:Lu|Uppercase_Letter|Uppercase)$/.test(name))
+        return union([[0x41, 0x5a]], nonASCII);
+    if (/^(?:Ll|Lowercase_Letter|Lowercase)$/.test(name))
+        return union([[0x61, 0x7a]], nonASCII);
+    if (/^(?:N|Number|Nd|Decimal_Number|digit)$/.test(name))
+        return union(DIGIT, nonASCII);
+    return "any";
+}
+
+/**
+ * A node of the regex AST. Groups are flattened into their bodies,
+ * and assertions are `empty` since they don't consume characters.
+ */
+type RegexNode =
+    | { type: "chars"; set: CharSet; start: number }
+    | { type: "seq"; items: RegexNode[]; start: number }
+    | { type: "alt"; alternatives: RegexNode[]; start: number }
+    | {
+          type: "repeat";
+          body: RegexNode;
+          min: number;
+          max: number;
+          start: number;
+      }
+    | { type: "empty"; start: number; lookaround?: RegexNode };
+
+/**
+ * Parses a valid regex into the AST.
+ */
+function parseRegex(pattern: string, flags: string): RegexNode {
+    const unicode = flags.includes("u") || flags.includes("v");
+    const ignoreCase = flags.includes("i");
+    const dotAll = flags.includes("s");
+    let i = 0;
+
+    const chars = (set: CharSet, start: number): RegexNode => ({
+        type: "chars",
+        set: ignoreCase ? caseFold(set) : union(set),
+        start,
+    });
+    const codePointAt = (at: number): number =>
+        unicode ? (pattern.codePointAt(at) as number) : pattern.charCodeAt(at);
+    const width = (cp: number): number => (cp > 0xffff ? 2 : 1);
+
+    /**
+     * Parses an escape after `\`, and returns its set, or null for assertions and backreferences.
+     */
+    const parseEscape = (inClass: boolean): CharSet | "any" | null => {
+        const c = pattern[i++] as string;
+        switch (c) {
+            case "d":
+                return DIGIT;
+            case "D":
+                return complement(DIGIT);
+            case "w":
+                return WORD;
+            case "W":
+                return complement(WORD);
+            case "s":
+                return SPACE;
+            case "S":
+                return complement(SPACE);
+            case "b":
+                return inClass ? [[8, 8]] : null;
+            case "B":
+                return null;
+            case "n":
+                return [[10, 10]];
+            case "r":
+                return [[13, 13]];
+            case "t":
+                return [[9, 9]];
+            case "v":
+                return [[11, 11]];
+            case "f":
+                return [[12, 12]];
+            case "0":
+                return [[0, 0]];
+            case "c": {
+                const code = pattern.charCodeAt(i++) % 32;
+                return [[code, code]];
+            }
+            case "x": {
+                const hex = /^[\da-f]{2}/i.exec(pattern.slice(i))?.[0];
+                // Without the `u` flag, `\x` without hex digits is `x`.
+                if (!hex) return [[0x78, 0x78]];
+                i += 2;
+                const code = Number.parseInt(hex, 16);
+                return [[code, code]];
+            }
+            case "u": {
+                let code: number;
+                if (pattern[i] === "{") {
+                    const close = pattern.indexOf("}", i);
+                    code = Number.parseInt(pattern.slice(i + 1, close), 16);
+                    i = close + 1;
+                } else {
+                    const hex = /^[\da-f]{4}/i.exec(pattern.slice(i))?.[0];
+                    if (!hex) return [[0x75, 0x75]];
+                    code = Number.parseInt(hex, 16);
+                    i += 4;
+                }
+                return [[code, code]];
+            }
+            case "p":
+            case "P": {
+                if (!unicode) return [[c.charCodeAt(0), c.charCodeAt(0)]];
+                const close = pattern.indexOf("}", i);
+                const name = pattern.slice(i + 1, close);
+                i = close + 1;
+                return c === "p" ? unicodeProperty(name) : "any";
+            }
+            case "k":
+                if (unicode || pattern[i] === "<") {
+                    i = pattern.indexOf(">", i) + 1;
+                    return "any";
+                }
+                return [[0x6b, 0x6b]];
+            default: {
+                if (/[1-9]/.test(c) && !inClass) {
+                    while (/\d/.test(pattern[i] ?? "")) i++;
+                    return "any";
+                }
+                const cp = codePointAt(i - 1);
+                i += width(cp) - 1;
+                return [[cp, cp]];
+            }
+        }
+    };
+
+    const parseClass = (start: number): RegexNode => {
+        i++; // [
+        const negated = pattern[i] === "^";
+        if (negated) i++;
+        const sets: CharSet[] = [];
+        while (i < pattern.length && pattern[i] !== "]") {
+            let from: CharSet | "any";
+            if (pattern[i] === "\\") {
+                i++;
+                from = parseEscape(true) ?? [];
+            } else if (pattern[i] === "[" && flags.includes("v")) {
+                // Nested classes of the `v` flag are approximated as any character.
+                let depth = 0;
+                do {
+                    if (pattern[i] === "\\") i++;
+                    else if (pattern[i] === "[") depth++;
+                    else if (pattern[i] === "]") depth--;
+                    i++;
+                } while (depth > 0 && i < pattern.length);
+                from = "any";
+            } else {
+                const cp = codePointAt(i);
+                i += width(cp);
+                from = [[cp, cp]];
+            }
+            if (
+                pattern[i] === "-" &&
+                pattern[i + 1] !== "]" &&
+                i + 1 < pattern.length &&
+                from !== "any" &&
+                from.length === 1 &&
+                from[0]?.[0] === from[0]?.[1]
+            ) {
+                i++;
+                let to: CharSet | "any";
+                if (pattern[i] === "\\") {
+                    i++;
+                    to = parseEscape(true) ?? [];
+                } else {
+                    const cp = codePointAt(i);
+                    i += width(cp);
+                    to = [[cp, cp]];
+                }
+                if (
+                    to !== "any" &&
+                    to.length === 1 &&
+                    to[0]?.[0] === to[0]?.[1]
+                ) {
+                    sets.push([[from[0]?.[0] as number, to[0]?.[0] as number]]);
+                    continue;
+                }
+                sets.push(from, to === "any" ? ALL : to, [[0x2d, 0x2d]]);
+                continue;
+            }
+            sets.push(from === "any" ? ALL : from);
+        }
+        i++; // ]
+        const set = union(...sets);
+        return chars(
+            negated ? complement(ignoreCase ? caseFold(set) : set) : set,
+            start,
+        );
+    };
+
+    const parseAtom = (): RegexNode | null => {
+        const start = i;
+        const c = pattern[i];
+        switch (c) {
+            case "(": {
+                i++;
+                let lookaround = false;
+                if (pattern[i] === "?") {
+                    if (pattern[i + 1] === ":") i += 2;
+                    else if (pattern[i + 1] === "=" || pattern[i + 1] === "!") {
+                        i += 2;
+                        lookaround = true;
+                    } else if (
+                        pattern[i + 1] === "<" &&
+                        (pattern[i + 2] === "=" || pattern[i + 2] === "!")
+                    ) {
+                        i += 3;
+                        lookaround = true;
+                    } else if (pattern[i + 1] === "<")
+                        i = pattern.indexOf(">", i) + 1;
+                    // Modifiers, e.g. `(?i:...)`.
+                    else i = pattern.indexOf(":", i) + 1;
+                }
+                const body = parseAlternation();
+                i++; // )
+                return lookaround
+                    ? { type: "empty", start, lookaround: body }
+                    : body;
+            }
+            case "[":
+                return parseClass(start);
+            case ".":
+                i++;
+                return chars(dotAll ? ALL : complement(LINE_TERMINATOR), start);
+            case "^":
+            case "$":
+                i++;
+                return { type: "empty", start };
+            case "\\": {
+                i++;
+                const set = parseEscape(false);
+                if (set === null) return { type: "empty", start };
+                return chars(set === "any" ? ALL : set, start);
+            }
+            default: {
+                const cp = codePointAt(i);
+                i += width(cp);
+                return chars([[cp, cp]], start);
+            }
+        }
+    };
+
+    const parseQuantifier = (): { min: number; max: number } | null => {
+        const c = pattern[i];
+        let quantifier: { min: number; max: number } | null = null;
+        if (c === "*") quantifier = { min: 0, max: Number.POSITIVE_INFINITY };
+        else if (c === "+")
+            quantifier = { min: 1, max: Number.POSITIVE_INFINITY };
+        else if (c === "?") quantifier = { min: 0, max: 1 };
+        if (quantifier) i++;
+        else if (c === "{") {
+            const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i));
+            // Without the `u` flag, `{` which is not a quantifier is a literal.
+            if (!match) return null;
+            i += match[0].length;
+            const min = Number(match[1]);
+            quantifier = {
+                min,
+                max:
+                    match[2] === undefined
+                        ? min
+                        : match[3]
+                          ? Number(match[3])
+                          : Number.POSITIVE_INFINITY,
+            };
+        } else return null;
+        if (pattern[i] === "?") i++; // Lazy quantifiers backtrack as well.
+        return quantifier;
+    };
+
+    const parseSequence = (): RegexNode => {
+        const start = i;
+        const items: RegexNode[] = [];
+        while (i < pattern.length && pattern[i] !== "|" && pattern[i] !== ")") {
+            const atomStart = i;
+            const atom = parseAtom();
+            if (!atom) continue;
+            const quantifier = parseQuantifier();
+            items.push(
+                quantifier
+                    ? {
+                          type: "repeat",
+                          body: atom,
+                          ...quantifier,
+                          start: atomStart,
+                      }
+                    : atom,
+            );
+        }
+        return items.length === 1
+            ? (items[0] as RegexNode)
+            : { type: "seq", items, start };
+    };
+
+    const parseAlternation = (): RegexNode => {
+        const start = i;
+        const alternatives = [parseSequence()];
+        while (pattern[i] === "|") {
+            i++;
+            alternatives.push(parseSequence());
+        }
+        return alternatives.length === 1
+            ? (alternatives[0] as RegexNode)
+            : { type: "alt", alternatives, start };
+    };
+
+    return parseAlternation();
+}
+
+function nullable(node: RegexNode): boolean {
+    switch (node.type) {
+        case "chars":
+            return false;
+        case "empty":
+            return true;
+        case "seq":
+            return node.items.every(nullable);
+        case "alt":
+            return node.alternatives.some(nullable);
+        case "repeat":
+            return node.min === 0 || nullable(node.body);
+    }
+}
+
+/**
+ * Characters which can start a non-empty match of the node.
+ */
+function first(node: RegexNode): CharSet {
+    switch (node.type) {
+        case "chars":
+            return node.set;
+        case "empty":
+            return [];
+        case "seq": {
+            const sets: CharSet[] = [];
+            for (const item of node.items) {
+                sets.push(first(item));
+                if (!nullable(item)) break;
+            }
+            return union(...sets);
+        }
+        case "alt":
+            return union(...node.alternatives.map(first));
+        case "repeat":
+            return node.max === 0 ? [] : first(node.body);
+    }
+}
+
+/**
+ * All characters which the node can consume.
+ */
+function consumed(node: RegexNode): CharSet {
+    switch (node.type) {
+        case "chars":
+            return node.set;
+        case "empty":
+            return [];
+        case "seq":
+            return union(...node.items.map(consumed));
+        case "alt":
+            return union(...node.alternatives.map(consumed));
+        case "repeat":
+            return node.max === 0 ? [] : consumed(node.body);
+    }
+}
+
+const isUnbounded = (
+    node: RegexNode,
+): node is Extract<RegexNode, { type: "repeat" }> =>
+    node.type === "repeat" && node.max >= UNBOUNDED;
+
+/**
+ * Walks the AST and collects findings.
+ * @param node The node to analyze.
+ * @param follow Characters which can come right after the node.
+ * @param inLoop True if the node is inside an unbounded quantifier.
+ */
+function analyze(
+    node: RegexNode,
+    follow: CharSet,
+    inLoop: boolean,
+    findings: ReDoSFinding[],
+): void {
+    switch (node.type) {
+        case "chars":
+            return;
+        case "empty":
+            if (node.lookaround) analyze(node.lookaround, [], false, findings);
+            return;
+        case "seq": {
+            let next = follow;
+            const follows: CharSet[] = [];
+            for (let i = node.items.length - 1; i >= 0; i--) {
+                follows[i] = next;
+                const item = node.items[i] as RegexNode;
+                next = nullable(item) ? union(first(item), next) : first(item);
+            }
+            for (const [i, item] of node.items.entries())
+                analyze(item, follows[i] as CharSet, inLoop, findings);
+
+            for (const [i, left] of node.items.entries()) {
+                if (!isUnbounded(left)) continue;
+                const set = consumed(left.body);
+                for (let j = i + 1; j < node.items.length; j++) {
+                    const right = node.items[j] as RegexNode;
+                    if (
+                        isUnbounded(right) &&
+                        intersects(set, consumed(right.body))
+                    ) {
+                        findings.push({
+                            risk: "polynomial",
+                            message:
+                                "Overlapping quantifiers in a row can split the same text in many ways",
+                            start: left.start,
+                        });
+                        break;
+                    }
+                    // The part between them can be absorbed by the left quantifier.
+                    const absorbed =
+                        nullable(right) ||
+                        (right.type === "chars" && intersects(set, right.set));
+                    if (!absorbed) break;
+                }
+            }
+            return;
+        }
+        case "alt": {
+            for (const alternative of node.alternatives)
+                analyze(alternative, follow, inLoop, findings);
+            if (!inLoop) return;
+            if (node.alternatives.some(nullable)) {
+                findings.push({
+                    risk: "exponential",
+                    message:
+                        "An alternative matching the empty string inside a quantifier can match the same text in many ways",
+                    start: node.start,
+                });
+                return;
+            }
+            const firsts = node.alternatives.map(first);
+            for (const [i, a] of firsts.entries())
+                if (firsts.slice(i + 1).some((b) => intersects(a, b))) {
+                    findings.push({
+                        risk: "exponential",
+                        message:
+                            "Overlapping alternatives inside a quantifier can match the same text in many ways",
+                        start: node.start,
+                    });
+                    return;
+                }
+            return;
+        }
+        case "repeat": {
+            const unbounded = node.max >= UNBOUNDED;
+            if (unbounded && inLoop && intersects(consumed(node.body), follow))
+                findings.push({
+                    risk: "exponential",
+                    message:
+                        "Nested quantifiers can match the same text in many ways",
+                    start: node.start,
+                });
+            const bodyFollow =
+                node.max > 1 ? union(first(node.body), follow) : follow;
+            analyze(node.body, bodyFollow, inLoop || unbounded, findings);
+            return;
+        }
+    }
+}
+
+/**
+ * Analyzes the regex for catastrophic backtracking.
+ * @param pattern The regex pattern.
+ * @param flags The regex flags.
+ * @returns The highest risk and the vulnerable parts.
+ * @throws {SyntaxError} If the regex is invalid.
+ * @example
+ * ```ts
+ * analyzeRegex("(a+)+$").risk; // "exponential"
+ * analyzeRegex("\\d+\\.\\d+").risk; // "safe"
+ * ```
+ */
+export function analyzeRegex(
+    pattern: string,
+    flags: string = "",
+): ReDoSAnalysis {
+    new RegExp(pattern, flags);
+    const findings: ReDoSFinding[] = [];
+    analyze(parseRegex(pattern, flags), [], false, findings);
+    // Nested findings may repeat, e.g. both an alternation and its quantifier.
+    const unique = findings.filter(
+        (f, i) =>
+            findings.findIndex(
+                (g) => g.start === f.start && g.message === f.message,
+            ) === i,
+    );
+    const risk = unique.reduce<ReDoSRisk>(
+        (max, f) => (riskOrder[f.risk] > riskOrder[max] ? f.risk : max),
+        "safe",
+    );
+    return { risk, findings: unique };
+}
+
+/**
+ * A risky regex of the character.
+ */
+export interface CharacterReDoSFinding extends ReDoSAnalysis {
+    /** JSON path of the pattern, e.g. `$.prompt.lorebook.data[0].condition[0].regexPattern`. */
+    path: string;
+}
+
+/**
+ * Analyzes the regexes of the character, and returns the risky ones with their path segments.
+ */
+function collectReDoS(
+    character: Character,
+    maxRisk: ReDoSRisk,
+): { path: PropertyKey[]; analysis: ReDoSAnalysis }[] {
+    const patterns: [PropertyKey[], string, string][] = [];
+    for (const [i, entry] of character.prompt.lorebook.data.entries())
+        for (const [j, condition] of entry.condition.entries())
+            if (condition.type === "regex_match")
+                patterns.push([
+                    [
+                        "prompt",
+                        "lorebook",
+                        "data",
+                        i,
+                        "condition",
+                        j,
+                        "regexPattern",
+                    ],
+                    condition.regexPattern,
+                    condition.regexFlags ?? "",
+                ]);
+    for (const [stage, hooks] of Object.entries(
+        character.executables.replaceHooks,
+    ))
+        for (const [i, hook] of hooks.entries())
+            if (hook.meta.type === "regex" && !hook.meta.isInputPatternScripted)
+                patterns.push([
+                    ["executables", "replaceHooks", stage, i, "input"],
+                    hook.input,
+                    hook.meta.flag,
+                ]);
+
+    const output: { path: PropertyKey[]; analysis: ReDoSAnalysis }[] = [];
+    for (const [path, pattern, flags] of patterns) {
+        let analysis: ReDoSAnalysis;
+        try {
+            analysis = analyzeRegex(pattern, flags);
+        } catch {
+            continue;
+        }
+        if (riskOrder[analysis.risk] > riskOrder[maxRisk])
+            output.push({ path, analysis });
+    }
+    return output;
+}
+
+/**
+ * Analyzes lorebook `regexPattern` and regex replace hook `input` of the character.
+ * Invalid regexes and scripted patterns are skipped, since they can't be analyzed statically.
+ * @param character The character to analyze.
+ * @param maxRisk The highest risk which is allowed. Default is `safe`.
+ * @returns Patterns whose risk is above `maxRisk`.
+ */
+export function findReDoS(
+    character: Character,
+    maxRisk: ReDoSRisk = "safe",
+): CharacterReDoSFinding[] {
+    return collectReDoS(character, maxRisk).map(({ path, analysis }) => ({
+        path: toJSONPath(path),
+        ...analysis,
+    }));
+}
+
+/**
+ * Adds ReDoS checks to the character schema, as an optional refinement.
+ * Patterns whose risk is above `maxRisk` fail the validation with a custom issue.
+ * @param schema The character schema, e.g. `CharacterSchema`.
+ * @param maxRisk The highest risk which is allowed. Default is `safe`.
+ * @returns The refined schema.
+ * @example
+ * ```ts
+ * const SafeCharacterSchema = refineReDoS(CharacterSchema);
+ * const result = SafeCharacterSchema.safeParse(downloaded);
+ * if (!result.success) sandboxOrRefuse(result.error);
+ * ```
+ */
+export function refineReDoS<T extends z.ZodType<Character>>(
+    schema: T,
+    maxRisk: ReDoSRisk = "safe",
+): T {
+    return schema.superRefine((character, ctx) => {
+        for (const { path, analysis } of collectReDoS(character, maxRisk))
+            ctx.addIssue({
+                code: "custom",
+                message: `Regex has ${analysis.risk} backtracking risk: ${analysis.findings[0]?.message}`,
+                path,
+                params: { risk: analysis.risk },
+            });
+    }) as T;
+}
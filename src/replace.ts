@@ -0,0 +1,309 @@
+/**
+ * @fileoverview Reference implementation of replace hooks.
+ * Applies the hooks of a stage to the text in priority order, and traces which hooks matched.
+ */
+import type * as z from "zod";
+import type {
+    ScriptEvaluator,
+    ScriptResult,
+    ScriptRuntimeSetting,
+} from "@/script";
+import type {
+    ReplaceHookEntitySchema,
+    ReplaceHookSchema,
+} from "@/types/v0/Executables/ReplaceHook";
+
+/**
+ * All replace hooks of a character, grouped by stage.
+ */
+export type ReplaceHooks = z.infer<typeof ReplaceHookSchema>;
+
+/**
+ * A single replace hook.
+ */
+export type ReplaceHookEntity = z.infer<typeof ReplaceHookEntitySchema>;
+
+/**
+ * The stage to apply the hooks on.
+ * - `display`: Only changes how the message is shown.
+ * - `input`: Edits the user input before it's saved.
+ * - `output`: Edits the character response before it's saved.
+ * - `request`: Only changes the request sent to the AI.
+ */
+export type ReplaceHookStage = keyof ReplaceHooks;
+
+/**
+ * A hook which matched the text.
+ */
+export interface ReplaceTraceEntry {
+    /** Index of the hook in the stage array. */
+    index: number;
+    hook: ReplaceHookEntity;
+    /** How many times the pattern matched. */
+    count: number;
+    /** The text after the hook was applied. */
+    text: string;
+}
+
+/**
+ * The result of {@link applyReplaceHooks}.
+ */
+export interface ReplaceResult {
+    /** The transformed text. */
+    text: string;
+    /** Hooks which matched, in the order they were applied. */
+    trace: ReplaceTraceEntry[];
+    /**
+     * Indexes of hooks skipped because their input or output is scripted.
+     * Use {@link applyScriptedReplaceHooks} to apply them.
+     */
+    skipped: number[];
+}
+
+/**
+ * Options for {@link applyScriptedReplaceHooks}.
+ */
+export interface ScriptedReplaceOptions {
+    /** The sandbox which evaluates scripted inputs and outputs. */
+    evaluator: ScriptEvaluator;
+    /** Runtime settings of the character, i.e. `executables.runtimeSetting`. */
+    runtimeSetting: ScriptRuntimeSetting;
+    /** Additional global variables of the scripts. Must be structured-cloneable. */
+    variables?: Record<string, unknown>;
+}
+
+/**
+ * The result of {@link applyScriptedReplaceHooks}.
+ */
+export interface ScriptedReplaceResult {
+    /** The transformed text. */
+    text: string;
+    /** Hooks which matched, in the order they were applied. */
+    trace: ReplaceTraceEntry[];
+    /** Hooks skipped because their script didn't return successfully, in the order they were applied. */
+    failures: {
+        index: number;
+        hook: ReplaceHookEntity;
+        result: ScriptResult;
+    }[];
+}
+
+/**
+ * Thrown when the pattern of a hook can't be compiled.
+ */
+export class ReplaceHookError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ReplaceHookError";
+    }
+}
+
+/**
+ * Compiles the pattern of the hook.
+ * Regex patterns use their own flags, so they replace only the first match without `g`.
+ * String patterns match literally and replace every occurrence.
+ * @param hook The replace hook.
+ * @returns The compiled pattern.
+ * @throws {ReplaceHookError} If the pattern is empty, or the regex or its flags are invalid.
+ */
+export function compileReplaceHook(hook: ReplaceHookEntity): RegExp {
+    const { meta } = hook;
+    // An empty pattern matches at every position, so the output would go between every character.
+    if (hook.input === "") throw new ReplaceHookError("Empty pattern");
+    if (meta.type === "string")
+        return new RegExp(
+            hook.input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+            meta.caseSensitive ? "g" : "gi",
+        );
+    try {
+        return new RegExp(hook.input, meta.flag);
+    } catch (e) {
+        throw new ReplaceHookError(
+            `Invalid regex /${hook.input}/${meta.flag}: ${(e as Error).message}`,
+        );
+    }
+}
+
+/**
+ * Orders the hooks of the stage by descending priority. Ties keep the stage order.
+ */
+function orderHooks(
+    hooks: readonly ReplaceHookEntity[],
+): { hook: ReplaceHookEntity; index: number }[] {
+    return (
+        hooks
+            .map((hook, index) => ({ hook, index }))
+            // Array#sort is stable, so ties keep the stage order.
+            .sort((a, b) => b.hook.meta.priority - a.hook.meta.priority)
+    );
+}
+
+/**
+ * Counts matches of the pattern in the text.
+ */
+function countMatches(pattern: RegExp, text: string): number {
+    const count = pattern.global
+        ? [...text.matchAll(pattern)].length
+        : Number(pattern.test(text));
+    pattern.lastIndex = 0;
+    return count;
+}
+
+/**
+ * Applies the hooks of the stage to the text.
+ * Hooks are applied one by one in descending priority, ties keeping their order,
+ * and each hook sees the output of the previous one.
+ * The output of regex hooks supports substitution patterns of `String#replace`,
+ * e.g. `$1`, `$<name>` and `$&`. The output of string hooks is inserted literally.
+ * Hooks with scripted input or output are skipped. Hooks with an empty pattern do nothing.
+ * @param stage The stage to apply.
+ * @param text The text to transform.
+ * @param hooks Replace hooks of the character.
+ * @returns The transformed text, and the trace of matched hooks.
+ * @throws {ReplaceHookError} If the pattern of a hook is invalid.
+ * @example
+ * ```ts
+ * const { text } = applyReplaceHooks(
+ *     "display",
+ *     message,
+ *     character.executables.replaceHooks,
+ * );
+ * ```
+ */
+export function applyReplaceHooks(
+    stage: ReplaceHookStage,
+    text: string,
+    hooks: ReplaceHooks,
+): ReplaceResult {
+    const trace: ReplaceTraceEntry[] = [];
+    const skipped: number[] = [];
+    for (const { hook, index } of orderHooks(hooks[stage])) {
+        if (hook.meta.isInputPatternScripted || hook.meta.isOutputScripted) {
+            skipped.push(index);
+            continue;
+        }
+        if (hook.input === "") continue;
+        const pattern = compileReplaceHook(hook);
+        const count = countMatches(pattern, text);
+        if (count === 0) continue;
+        text =
+            hook.meta.type === "string"
+                ? text.replace(pattern, () => hook.output)
+                : text.replace(pattern, hook.output);
+        trace.push({ index, hook, count, text });
+    }
+    return { text, trace, skipped: skipped.sort((a, b) => a - b) };
+}
+
+/**
+ * Applies the hooks of the stage to the text, evaluating scripted hooks with the evaluator.
+ * Works like {@link applyReplaceHooks}, except:
+ * - A scripted input is evaluated with the variable `text` before matching,
+ *   and its value is used as the pattern.
+ * - A scripted output is evaluated once per match, with the variables `match`,
+ *   `groups` (capture groups, `undefined` if not participating), `namedGroups` and `index`.
+ *   Its value is inserted literally. Outputs of all matches are evaluated together
+ *   with `evaluateEach`, if the evaluator supports it.
+ *
+ * If a script doesn't return successfully, the hook is skipped and recorded in `failures`.
+ * @param stage The stage to apply.
+ * @param text The text to transform.
+ * @param hooks Replace hooks of the character.
+ * @param options The evaluator and the runtime settings.
+ * @returns The transformed text, the trace of matched hooks, and failed hooks.
+ * @throws {ReplaceHookError} If the pattern of a hook is invalid.
+ */
+export async function applyScriptedReplaceHooks(
+    stage: ReplaceHookStage,
+    text: string,
+    hooks: ReplaceHooks,
+    options: ScriptedReplaceOptions,
+): Promise<ScriptedReplaceResult> {
+    const evaluate = (code: string, variables: Record<string, unknown>) =>
+        options.evaluator.evaluate(code, {
+            variables: { ...options.variables, ...variables },
+            runtimeSetting: options.runtimeSetting,
+        });
+    // Evaluates the output of every match at once, if the evaluator supports it.
+    const evaluateEach = async (
+        code: string,
+        variables: Record<string, unknown>[],
+    ): Promise<ScriptResult[]> => {
+        if (options.evaluator.evaluateEach)
+            return options.evaluator.evaluateEach(code, {
+                variables: variables.map((v) => ({
+                    ...options.variables,
+                    ...v,
+                })),
+                runtimeSetting: options.runtimeSetting,
+            });
+        const results: ScriptResult[] = [];
+        for (const v of variables) {
+            const result = await evaluate(code, v);
+            results.push(result);
+            if (result.status !== "ok") break;
+        }
+        return results;
+    };
+
+    const trace: ReplaceTraceEntry[] = [];
+    const failures: ScriptedReplaceResult["failures"] = [];
+    next: for (const { hook, index } of orderHooks(hooks[stage])) {
+        let input = hook.input;
+        if (hook.meta.isInputPatternScripted) {
+            const result = await evaluate(hook.input, { text });
+            if (result.status !== "ok") {
+                failures.push({ index, hook, result });
+                continue;
+            }
+            input = String(result.value);
+        }
+        if (input === "") continue;
+        const pattern = compileReplaceHook({ ...hook, input });
+
+        if (!hook.meta.isOutputScripted) {
+            const count = countMatches(pattern, text);
+            if (count === 0) continue;
+            text =
+                hook.meta.type === "string"
+                    ? text.replace(pattern, () => hook.output)
+                    : text.replace(pattern, hook.output);
+            trace.push({ index, hook, count, text });
+            continue;
+        }
+
+        const matches = pattern.global
+            ? [...text.matchAll(pattern)]
+            : [pattern.exec(text)].filter((m) => m !== null);
+        if (matches.length === 0) continue;
+        const results = await evaluateEach(
+            hook.output,
+            matches.map((match) => ({
+                match: match[0],
+                groups: match.slice(1),
+                namedGroups: { ...match.groups },
+                index: match.index,
+            })),
+        );
+        let replaced = "";
+        let last = 0;
+        for (const [i, match] of matches.entries()) {
+            const result = results[i] ?? {
+                status: "error",
+                error: {
+                    name: "ReplaceHookError",
+                    message: `Evaluator returned ${results.length} results for ${matches.length} matches`,
+                },
+            };
+            if (result.status !== "ok") {
+                failures.push({ index, hook, result });
+                continue next;
+            }
+            replaced += text.slice(last, match.index) + String(result.value);
+            last = match.index + match[0].length;
+        }
+        text = replaced + text.slice(last);
+        trace.push({ index, hook, count: matches.length, text });
+    }
+    return { text, trace, failures };
+}
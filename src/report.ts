@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Structured reports of what changed while migrating or converting a character.
+ * Lets the UI show users exactly which fields were dropped, defaulted or coerced.
+ */
+import { isRecord } from "@/utils";
+
+/**
+ * Severity of a change.
+ * - `info`: Nothing was lost, e.g. a default value was filled.
+ * - `lossy`: Data was dropped or changed in a way that can't be reverted.
+ * - `error`: The data couldn't be converted at all.
+ */
+export type ReportSeverity = "info" | "lossy" | "error";
+
+/**
+ * What happened to the value at the path.
+ */
+export type ChangeKind =
+    | "dropped"
+    | "defaulted"
+    | "coerced"
+    | "renamed"
+    | "unsupported";
+
+/**
+ * A single change made during migration or conversion.
+ */
+export interface ReportEntry {
+    /** JSON path of the changed value, e.g. `$.prompt.lorebook.data[3].condition`. */
+    path: string;
+    severity: ReportSeverity;
+    kind: ChangeKind;
+    /** Human readable description of the change. */
+    message: string;
+    /** The value before the change, if any. */
+    before?: unknown;
+    /** The value after the change, if any. */
+    after?: unknown;
+}
+
+const severityOrder: Record<ReportSeverity, number> = {
+    info: 0,
+    lossy: 1,
+    error: 2,
+};
+
+/**
+ * Formats path segments into a JSON path string.
+ * @param segments The path segments, e.g. `path` of a Zod issue. Numbers are formatted as array indexes.
+ * @param base The base path to append to. Default is `$`.
+ * @returns The JSON path, e.g. `$.assets.assets[0].name`.
+ * @example
+ * ```ts
+ * toJSONPath(["prompt", "lorebook", "data", 3]); // "$.prompt.lorebook.data[3]"
+ * toJSONPath(["a-b"]); // '$["a-b"]'
+ * ```
+ */
+export function toJSONPath(
+    segments: readonly PropertyKey[],
+    base: string = "$",
+): string {
+    let path = base;
+    for (const segment of segments) {
+        if (typeof segment === "number") path += `[${segment}]`;
+        else if (typeof segment === "symbol") path += `[${String(segment)}]`;
+        else if (/^[A-Za-z_$][\w$]*$/.test(segment)) path += `.${segment}`;
+        else path += `[${JSON.stringify(segment)}]`;
+    }
+    return path;
+}
+
+/**
+ * Collects changes made while migrating or converting a character.
+ */
+export class MigrationReport {
+    readonly entries: ReportEntry[] = [];
+
+    /**
+     * Adds an entry to the report.
+     * @param entry The entry to add.
+     * @returns This report, for chaining.
+     */
+    add(entry: ReportEntry): this {
+        this.entries.push(entry);
+        return this;
+    }
+
+    /**
+     * Adds an `info` entry. Nothing was lost.
+     */
+    info(
+        path: string,
+        kind: ChangeKind,
+        message: string,
+        detail?: Pick<ReportEntry, "before" | "after">,
+    ): this {
+        return this.add({ path, severity: "info", kind, message, ...detail });
+    }
+
+    /**
+     * Adds a `lossy` entry. Data was dropped or irreversibly changed.
+     */
+    lossy(
+        path: string,
+        kind: ChangeKind,
+        message: string,
+        detail?: Pick<ReportEntry, "before" | "after">,
+    ): this {
+        return this.add({ path, severity: "lossy", kind, message, ...detail });
+    }
+
+    /**
+     * Adds an `error` entry. The data couldn't be converted.
+     */
+    error(
+        path: string,
+        kind: ChangeKind,
+        message: string,
+        detail?: Pick<ReportEntry, "before" | "after">,
+    ): this {
+        return this.add({ path, severity: "error", kind, message, ...detail });
+    }
+
+    /**
+     * Appends all entries of another report.
+     * @param other The report to merge.
+     * @returns This report, for chaining.
+     */
+    merge(other: MigrationReport): this {
+        this.entries.push(...other.entries);
+        return this;
+    }
+
+    /**
+     * The highest severity in the report, or null if nothing changed.
+     */
+    get severity(): ReportSeverity | null {
+        let max: ReportSeverity | null = null;
+        for (const { severity } of this.entries)
+            if (max === null || severityOrder[severity] > severityOrder[max])
+                max = severity;
+        return max;
+    }
+
+    /**
+     * True if no data was lost, i.e. there are no `lossy` or `error` entries.
+     */
+    get isLossless(): boolean {
+        return this.entries.every((e) => e.severity === "info");
+    }
+
+    /**
+     * Returns entries with the given severity.
+     * @param severity The severity to filter.
+     */
+    filter(severity: ReportSeverity): ReportEntry[] {
+        return this.entries.filter((e) => e.severity === severity);
+    }
+
+    toJSON(): { entries: ReportEntry[] } {
+        return { entries: this.entries };
+    }
+}
+
+/**
+ * Compares the raw input with the schema output, and reports keys that were
+ * stripped (`lossy`), filled with defaults (`info`), or changed (`info`).
+ * @param input The raw input data, before parsing.
+ * @param output The parsed output.
+ * @param report The report to add entries to.
+ * @param path JSON path of the compared values. Default is `$`.
+ */
+export function reportParseChanges(
+    input: unknown,
+    output: unknown,
+    report: MigrationReport,
+    path: string = "$",
+): void {
+    if (Object.is(input, output)) return;
+
+    if (isRecord(input) && isRecord(output)) {
+        for (const key of Object.keys(input)) {
+            const childPath = toJSONPath([key], path);
+            if (input[key] === undefined) continue;
+            if (!Object.hasOwn(output, key))
+                report.lossy(
+                    childPath,
+                    "dropped",
+                    "Unknown field was dropped",
+                    {
+                        before: input[key],
+                    },
+                );
+            else reportParseChanges(input[key], output[key], report, childPath);
+        }
+        for (const key of Object.keys(output)) {
+            if (input[key] !== undefined || output[key] === undefined) continue;
+            report.info(
+                toJSONPath([key], path),
+                "defaulted",
+                "Missing field was filled with the default value",
+                { after: output[key] },
+            );
+        }
+        return;
+    }
+
+    if (Array.isArray(input) && Array.isArray(output)) {
+        const length = Math.max(input.length, output.length);
+        for (let i = 0; i < length; i++)
+            reportParseChanges(
+                input[i],
+                output[i],
+                report,
+                toJSONPath([i], path),
+            );
+        return;
+    }
+
+    if (input instanceof Uint8Array && output instanceof Uint8Array) return;
+
+    if (output === undefined) {
+        report.lossy(path, "dropped", "Value was dropped", { before: input });
+        return;
+    }
+    if (input === undefined) {
+        report.info(
+            path,
+            "defaulted",
+            "Missing field was filled with the default value",
+            { after: output },
+        );
+        return;
+    }
+
+    report.info(path, "coerced", "Value was coerced by the schema", {
+        before: input,
+        after: output,
+    });
+}
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Interface of the sandbox which evaluates scripted fields, e.g. scripted replace hooks.
+ * The library doesn't ship a sandbox for browsers. Hosts implement {@link ScriptEvaluator}
+ * with their own sandbox, or use `createWorkerEvaluator` of `worker.ts` on Node.
+ */
+import type * as z from "zod";
+import type { ScriptSettingSchema } from "@/types/v0/Executables/Executable";
+
+/**
+ * Runtime settings of the character script. `timeout` is in seconds, `mem` is in MB.
+ */
+export type ScriptRuntimeSetting = z.infer<
+    typeof ScriptSettingSchema
+>["runtimeSetting"];
+
+/**
+ * Limits of script evaluation. Used both as the upper limits of the host,
+ * at which the settings of the character are capped, and as the limits applied to an evaluation.
+ */
+export interface ScriptLimits {
+    /** Execution time per evaluation, in seconds. */
+    timeout: number;
+    /** Memory usage, in MB. */
+    mem: number;
+}
+
+/**
+ * Default upper limits, used when the host doesn't configure them.
+ */
+export const DEFAULT_SCRIPT_LIMITS: Readonly<ScriptLimits> = Object.freeze({
+    timeout: 10,
+    mem: 64,
+});
+
+/**
+ * A request to evaluate a script.
+ */
+export interface ScriptRequest {
+    /**
+     * Global variables of the script. Must be structured-cloneable,
+     * since sandboxes usually run in another thread or realm.
+     */
+    variables: Record<string, unknown>;
+    /** Runtime settings of the character. Capped by the evaluator with its host config. */
+    runtimeSetting: ScriptRuntimeSetting;
+}
+
+/**
+ * A request to evaluate a script once for each set of variables.
+ */
+export interface ScriptBatchRequest {
+    /** Global variables of each evaluation. Must be structured-cloneable. */
+    variables: Record<string, unknown>[];
+    /** Runtime settings of the character. Capped by the evaluator with its host config. */
+    runtimeSetting: ScriptRuntimeSetting;
+}
+
+/**
+ * The result of an evaluation.
+ * - `ok`: The script returned `value`. Promises are awaited.
+ * - `error`: The script threw, or its value couldn't be returned, e.g. a function.
+ * - `timeout`: The script ran longer than `timeout` seconds and was terminated.
+ * - `memory`: The script used more than `mem` MB and was terminated.
+ */
+export type ScriptResult =
+    | { status: "ok"; value: unknown }
+    | { status: "error"; error: { name: string; message: string } }
+    | { status: "timeout"; timeout: number }
+    | { status: "memory"; mem: number };
+
+/**
+ * Evaluates JavaScript expressions of scripted fields in a sandbox.
+ * Implementations must never throw for failures of the script itself,
+ * and must return them as {@link ScriptResult} instead.
+ */
+export interface ScriptEvaluator {
+    /**
+     * Evaluates the code as a script, and returns the value of its last expression.
+     * @param code The JavaScript code.
+     * @param request Variables and runtime settings.
+     */
+    evaluate(code: string, request: ScriptRequest): Promise<ScriptResult>;
+    /**
+     * Evaluates the code once for each set of variables in one sandbox, to save its startup cost.
+     * Each evaluation has its own timeout. Optional, callers fall back to {@link evaluate}.
+     * @param code The JavaScript code.
+     * @param request Variables of each evaluation, and runtime settings.
+     * @returns The results in order. Stops at the first result which is not `ok`,
+     * so it may be shorter than the variables, and then ends with the failure.
+     */
+    evaluateEach?(
+        code: string,
+        request: ScriptBatchRequest,
+    ): Promise<ScriptResult[]>;
+}
+
+/**
+ * Caps the runtime settings of the character at the host config.
+ * @param runtimeSetting Runtime settings of the character.
+ * @param host Upper limits of the host.
+ * @returns The limits to apply. `mem` falls back to the host limit.
+ */
+export function resolveScriptLimits(
+    runtimeSetting: ScriptRuntimeSetting,
+    host: ScriptLimits = DEFAULT_SCRIPT_LIMITS,
+): ScriptLimits {
+    return {
+        timeout: Math.min(runtimeSetting.timeout, host.timeout),
+        mem: Math.min(runtimeSetting.mem ?? host.mem, host.mem),
+    };
+}
@@ -0,0 +1,473 @@
+/**
+ * @fileoverview Tokenizers used to count tokens of prompts and lorebook entries.
+ * Provides a heuristic estimator which works without any vocabulary, and
+ * byte-level BPE tokenizers built from vocabulary files of tiktoken and HuggingFace.
+ * Vocabulary files are not bundled, so read them yourself and pass the contents.
+ */
+import { z } from "zod";
+
+/**
+ * Counts, and optionally encodes, tokens of text.
+ * Pass the tokenizer of the model the user runs, so the counts match the model.
+ */
+export interface Tokenizer {
+    /** Human readable name, e.g. `cl100k_base`. */
+    readonly name: string;
+    /**
+     * Counts tokens of the text.
+     * @param text The text to count.
+     */
+    count(text: string): number;
+    /**
+     * Encodes the text into token ids. Undefined for estimators.
+     * @param text The text to encode.
+     */
+    encode?(text: string): number[];
+}
+
+/**
+ * Thrown when the vocabulary file is invalid or unsupported, or the text can't be encoded.
+ */
+export class TokenizerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TokenizerError";
+    }
+}
+
+/**
+ * Han, Hiragana, Katakana and Hangul. Each of them usually takes one or more tokens.
+ */
+const CJK =
+    /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+/**
+ * Estimates tokens without any vocabulary.
+ * Assumes 4 characters per token for most scripts, and one token per CJK character.
+ * Good enough for budgets when the model is unknown, but never exact.
+ */
+export const heuristicTokenizer: Tokenizer = Object.freeze({
+    name: "heuristic",
+    count(text: string): number {
+        const cjk = text.match(CJK)?.length ?? 0;
+        return cjk + Math.ceil((text.length - cjk) / 4);
+    },
+});
+
+/**
+ * Pre-tokenization patterns of well-known vocabularies.
+ * Text is split by the pattern first, and each piece is encoded separately.
+ */
+export const PRETOKENIZE_PATTERNS = Object.freeze({
+    gpt2: "'s|'t|'re|'ve|'m|'ll|'d| ?\\p{L}+| ?\\p{N}+| ?[^\\s\\p{L}\\p{N}]+|\\s+(?!\\S)|\\s+",
+    cl100k_base:
+        "(?:'[sS]|'[tT]|'[rR][eE]|'[vV][eE]|'[mM]|'[lL][lL]|'[dD])|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+",
+});
+
+/**
+ * Options for {@link createBPETokenizer}.
+ */
+interface BPEOptions {
+    name: string;
+    /** Pre-tokenization pattern. Compiled with `gu` flags. */
+    pattern: string;
+    /** Special tokens which are never split, e.g. `<|endoftext|>`, with their ids. */
+    specialTokens: ReadonlyMap<string, number>;
+    /** Converts the bytes of a piece into initial symbols. */
+    toSymbols: (bytes: Uint8Array) => string[];
+    /** Rank of merging two adjacent symbols. Lower merges first. Undefined if they can't be merged. */
+    rank: (left: string, right: string) => number | undefined;
+    /** Id of a final symbol. */
+    id: (symbol: string) => number | undefined;
+    /**
+     * If given, a piece which is a single vocabulary entry is encoded as it is, without merging.
+     * For `ignore_merges` of HuggingFace.
+     */
+    whole?: (symbol: string) => number | undefined;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Swaps the case of a letter. Returns undefined if it has no single-character counterpart.
+ */
+function swapCase(char: string): string | undefined {
+    const lower = char.toLowerCase();
+    const other = char === lower ? char.toUpperCase() : lower;
+    return other !== char && other.length === 1 ? other : undefined;
+}
+
+/**
+ * An escape sequence of a regex, whose letters must be kept as they are.
+ */
+const ESCAPE =
+    /^\\(?:[pPu]\{[^}]*\}|k<[^>]*>|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|c[a-zA-Z]|.)/su;
+
+/**
+ * Rewrites inline case-insensitive groups `(?i:...)`, which `RegExp` of Node 22 and older
+ * rejects, into non-capturing groups matching both cases of each letter.
+ * e.g. `(?i:'s|'re)` becomes `(?:'[sS]|'[rR][eE])`, as in the `cl100k_base` pattern.
+ */
+function expandCaseInsensitiveGroups(pattern: string): string {
+    if (!pattern.includes("(?i:")) return pattern;
+    let out = "";
+    // True for each open group which is case-insensitive.
+    const groups: boolean[] = [];
+    let inClass = false;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i] as string;
+        const insensitive = groups.includes(true);
+        if (char === "\\") {
+            const sequence = ESCAPE.exec(pattern.slice(i))?.[0] ?? char;
+            out += sequence;
+            i += sequence.length - 1;
+        } else if (inClass) {
+            const end = pattern[i + 2];
+            if (char === "]") {
+                inClass = false;
+                out += char;
+            } else if (
+                insensitive &&
+                pattern[i + 1] === "-" &&
+                end !== undefined &&
+                swapCase(char) !== undefined &&
+                swapCase(end) !== undefined
+            ) {
+                out += `${char}-${end}${swapCase(char)}-${swapCase(end)}`;
+                i += 2;
+            } else out += insensitive ? char + (swapCase(char) ?? "") : char;
+        } else if (char === "[") {
+            inClass = true;
+            out += char;
+        } else if (char === "(") {
+            const flagged = pattern.startsWith("(?i:", i);
+            groups.push(flagged);
+            out += flagged ? "(?:" : char;
+            if (flagged) i += 3;
+        } else if (char === ")") {
+            groups.pop();
+            out += char;
+        } else {
+            const other = insensitive ? swapCase(char) : undefined;
+            out += other ? `[${char}${other}]` : char;
+        }
+    }
+    return out;
+}
+
+/**
+ * Creates a byte-level BPE tokenizer.
+ * @param options Vocabulary-specific behaviors.
+ * @throws {TokenizerError} If the pre-tokenization pattern is not a valid regex.
+ */
+function createBPETokenizer(options: BPEOptions): Tokenizer {
+    let pattern: RegExp;
+    try {
+        pattern = new RegExp(
+            expandCaseInsensitiveGroups(options.pattern),
+            "gu",
+        );
+    } catch (e) {
+        throw new TokenizerError(
+            `Unsupported pre-tokenization pattern of ${options.name}: ${(e as Error).message}`,
+        );
+    }
+    const special =
+        options.specialTokens.size > 0
+            ? new RegExp(
+                  // Longest first, so a token isn't cut short by its prefix.
+                  [...options.specialTokens.keys()]
+                      .sort((a, b) => b.length - a.length)
+                      .map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+                      .join("|"),
+                  "g",
+              )
+            : null;
+    // Chat text repeats the same words a lot, so pieces are cached.
+    const cache = new Map<string, number[]>();
+
+    const encodePiece = (piece: string): number[] => {
+        const cached = cache.get(piece);
+        if (cached) return cached;
+        const symbols = options.toSymbols(encoder.encode(piece));
+        const joined = symbols.join("");
+        // A single symbol has nothing to merge.
+        if (options.whole?.(joined) !== undefined)
+            symbols.splice(0, symbols.length, joined);
+        for (;;) {
+            let best = -1;
+            let bestRank = Number.POSITIVE_INFINITY;
+            for (let i = 0; i < symbols.length - 1; i++) {
+                const rank = options.rank(
+                    symbols[i] as string,
+                    symbols[i + 1] as string,
+                );
+                if (rank !== undefined && rank < bestRank) {
+                    best = i;
+                    bestRank = rank;
+                }
+            }
+            if (best < 0) break;
+            symbols.splice(
+                best,
+                2,
+                (symbols[best] as string) + (symbols[best + 1] as string),
+            );
+        }
+        const ids = symbols.map((symbol) => {
+            const id = options.id(symbol);
+            if (id === undefined)
+                throw new TokenizerError(
+                    `Symbol ${JSON.stringify(symbol)} is not in the vocabulary of ${options.name}`,
+                );
+            return id;
+        });
+        if (cache.size >= 10000) cache.clear();
+        cache.set(piece, ids);
+        return ids;
+    };
+
+    const encodeOrdinary = (text: string, ids: number[]): void => {
+        // Text between matches is a piece too, as `Isolated` splits of HuggingFace.
+        let last = 0;
+        for (const match of text.matchAll(pattern)) {
+            if (match.index > last)
+                ids.push(...encodePiece(text.slice(last, match.index)));
+            if (match[0]) ids.push(...encodePiece(match[0]));
+            last = match.index + match[0].length;
+        }
+        if (last < text.length) ids.push(...encodePiece(text.slice(last)));
+    };
+
+    const encode = (text: string): number[] => {
+        const ids: number[] = [];
+        let last = 0;
+        if (special)
+            for (const match of text.matchAll(special)) {
+                encodeOrdinary(text.slice(last, match.index), ids);
+                ids.push(options.specialTokens.get(match[0]) as number);
+                last = match.index + match[0].length;
+            }
+        encodeOrdinary(text.slice(last), ids);
+        return ids;
+    };
+
+    return {
+        name: options.name,
+        encode,
+        count: (text) => encode(text).length,
+    };
+}
+
+/**
+ * Maps each byte into a single character, so byte sequences can be used as Map keys.
+ */
+function bytesToKey(bytes: Uint8Array): string {
+    let key = "";
+    for (const byte of bytes) key += String.fromCharCode(byte);
+    return key;
+}
+
+/**
+ * Options for {@link createTiktokenTokenizer}.
+ */
+export interface TiktokenOptions {
+    /** Name of the tokenizer. Default is `tiktoken`. */
+    name?: string;
+    /** Pre-tokenization pattern. Default is {@link PRETOKENIZE_PATTERNS}`.cl100k_base`. */
+    pattern?: string;
+    /** Special tokens with their ids, e.g. `{ "<|endoftext|>": 100257 }`. */
+    specialTokens?: Record<string, number>;
+}
+
+/**
+ * Creates a tokenizer from a `.tiktoken` vocabulary file, used by OpenAI models.
+ * Each line of the file is a base64 encoded token and its rank, separated by a space.
+ * @param file Contents of the `.tiktoken` file.
+ * @param options The name, the pattern and special tokens. Use the ones of the vocabulary.
+ * @returns The tokenizer.
+ * @throws {TokenizerError} If the file is malformed.
+ * @example
+ * ```ts
+ * const tokenizer = createTiktokenTokenizer(
+ *     await readFile("cl100k_base.tiktoken", "utf-8"),
+ *     { name: "cl100k_base" },
+ * );
+ * ```
+ */
+export function createTiktokenTokenizer(
+    file: string,
+    options: TiktokenOptions = {},
+): Tokenizer {
+    const ranks = new Map<string, number>();
+    for (const [i, line] of file.split("\n").entries()) {
+        if (!line.trim()) continue;
+        const [token, rank] = line.trim().split(" ");
+        const value = Number(rank);
+        if (!token || !Number.isInteger(value))
+            throw new TokenizerError(`Malformed line ${i + 1}: ${line}`);
+        let bytes: string;
+        try {
+            bytes = atob(token);
+        } catch {
+            throw new TokenizerError(`Malformed base64 at line ${i + 1}`);
+        }
+        ranks.set(bytes, value);
+    }
+
+    return createBPETokenizer({
+        name: options.name ?? "tiktoken",
+        pattern: options.pattern ?? PRETOKENIZE_PATTERNS.cl100k_base,
+        specialTokens: new Map(Object.entries(options.specialTokens ?? {})),
+        toSymbols: (bytes) => [...bytesToKey(bytes)],
+        rank: (left, right) => ranks.get(left + right),
+        id: (symbol) => ranks.get(symbol),
+    });
+}
+
+/**
+ * The subset of HuggingFace `tokenizer.json` used by byte-level BPE models.
+ */
+const HuggingFaceTokenizerSchema = z.looseObject({
+    added_tokens: z
+        .array(
+            z.looseObject({
+                id: z.number(),
+                content: z.string(),
+                special: z.boolean().optional(),
+            }),
+        )
+        .default([]),
+    pre_tokenizer: z
+        .looseObject({
+            type: z.string(),
+            use_regex: z.boolean().optional(),
+            pattern: z.looseObject({ Regex: z.string() }).optional(),
+            behavior: z.string().optional(),
+            invert: z.boolean().optional(),
+            pretokenizers: z
+                .array(
+                    z.looseObject({
+                        type: z.string(),
+                        use_regex: z.boolean().optional(),
+                        pattern: z
+                            .looseObject({ Regex: z.string() })
+                            .optional(),
+                        behavior: z.string().optional(),
+                        invert: z.boolean().optional(),
+                    }),
+                )
+                .optional(),
+        })
+        .nullish(),
+    model: z.looseObject({
+        type: z.literal("BPE"),
+        vocab: z.record(z.string(), z.number()),
+        merges: z.array(
+            z.union([z.string(), z.tuple([z.string(), z.string()])]),
+        ),
+        unk_token: z.string().nullish(),
+        ignore_merges: z.boolean().optional(),
+    }),
+});
+
+/**
+ * Maps each byte into a printable character, as GPT-2 does.
+ * Vocabularies of byte-level BPE are stored with these characters, e.g. `Ġ` for a space.
+ */
+const byteLevelChars = (() => {
+    const chars: string[] = [];
+    let extra = 0;
+    for (let byte = 0; byte < 256; byte++) {
+        const printable =
+            (byte >= 0x21 && byte <= 0x7e) ||
+            (byte >= 0xa1 && byte <= 0xac) ||
+            byte >= 0xae;
+        chars.push(String.fromCharCode(printable ? byte : 256 + extra++));
+    }
+    return chars;
+})();
+
+/**
+ * Reads the pre-tokenization pattern of `tokenizer.json`.
+ * Supports `ByteLevel`, and `Sequence` of `Split` followed by `ByteLevel`.
+ * `Split` must use the `Isolated` behavior without `invert`, as GPT-2 style models do.
+ */
+function readPretokenizePattern(
+    preTokenizer: z.infer<typeof HuggingFaceTokenizerSchema>["pre_tokenizer"],
+): string {
+    if (!preTokenizer) return PRETOKENIZE_PATTERNS.gpt2;
+    const steps =
+        preTokenizer.type === "Sequence"
+            ? (preTokenizer.pretokenizers ?? [])
+            : [preTokenizer];
+    let pattern: string | undefined;
+    for (const step of steps) {
+        if (
+            step.type === "Split" &&
+            ((step.behavior ?? "Isolated") !== "Isolated" || step.invert)
+        )
+            throw new TokenizerError(
+                `Unsupported Split behavior: ${step.behavior}${step.invert ? ", inverted" : ""}`,
+            );
+        if (step.type === "Split" && step.pattern && pattern === undefined)
+            pattern = step.pattern.Regex;
+        else if (step.type === "ByteLevel") {
+            if (step.use_regex !== false) pattern ??= PRETOKENIZE_PATTERNS.gpt2;
+        } else
+            throw new TokenizerError(`Unsupported pre-tokenizer: ${step.type}`);
+    }
+    return pattern ?? PRETOKENIZE_PATTERNS.gpt2;
+}
+
+/**
+ * Creates a tokenizer from HuggingFace `tokenizer.json` of a byte-level BPE model,
+ * e.g. GPT-2, Llama 3 or Qwen.
+ * Added tokens are never split. With `ignore_merges`, pieces in the vocabulary are not merged.
+ * SentencePiece-based models are not supported.
+ * @param json Contents of `tokenizer.json`, as a string or parsed.
+ * @param name Name of the tokenizer. Default is `huggingface`.
+ * @returns The tokenizer.
+ * @throws {TokenizerError} If the file is not a supported byte-level BPE tokenizer.
+ */
+export function createHuggingFaceTokenizer(
+    json: string | unknown,
+    name: string = "huggingface",
+): Tokenizer {
+    let data: unknown = json;
+    if (typeof json === "string")
+        try {
+            data = JSON.parse(json);
+        } catch (e) {
+            throw new TokenizerError(
+                `Invalid tokenizer.json: ${(e as Error).message}`,
+            );
+        }
+    const parsed = HuggingFaceTokenizerSchema.safeParse(data);
+    if (!parsed.success)
+        throw new TokenizerError(
+            `Unsupported tokenizer.json: ${parsed.error.message}`,
+        );
+    const { model, added_tokens, pre_tokenizer } = parsed.data;
+
+    const vocab = new Map(Object.entries(model.vocab));
+    const merges = new Map<string, number>();
+    for (const [i, merge] of model.merges.entries()) {
+        const [left, right] =
+            typeof merge === "string" ? merge.split(" ") : merge;
+        merges.set(`${left} ${right}`, i);
+    }
+    const unknown =
+        model.unk_token != null ? vocab.get(model.unk_token) : undefined;
+
+    return createBPETokenizer({
+        name,
+        pattern: readPretokenizePattern(pre_tokenizer),
+        specialTokens: new Map(added_tokens.map((t) => [t.content, t.id])),
+        toSymbols: (bytes) =>
+            Array.from(bytes, (byte) => byteLevelChars[byte] as string),
+        rank: (left, right) => merges.get(`${left} ${right}`),
+        id: (symbol) => vocab.get(symbol) ?? unknown,
+        ...(model.ignore_merges && { whole: (symbol) => vocab.get(symbol) }),
+    });
+}
@@ -0,0 +1,350 @@
+/**
+ * @fileoverview Export and import of characters as shareable binary files.
+ * @see TRANSPORT.md
+ */
+import { hashContent, verifyAssets } from "@/assets";
+import { decodeCBOR, encodeCBOR } from "@/cbor";
+import {
+    decryptData,
+    type EncryptOptions,
+    encryptData,
+    PasswordRequiredError,
+} from "@/encryption";
+import {
+    type Codec,
+    ENVELOPE_FLAGS,
+    EnvelopeError,
+    type EnvelopeHeader,
+    type EnvelopeSignature,
+    readEnvelope,
+    writeEnvelope,
+} from "@/envelope";
+import { type ParseOptions, parseAnyCharacter } from "@/migration";
+import type { MigrationReport } from "@/report";
+import type { Character } from "@/types/v0/Character/Character";
+
+/**
+ * Default compression codec used for the transport payload.
+ */
+const DEFAULT_CODEC = "gzip" satisfies Codec;
+
+/**
+ * Options for {@link exportCharacter}.
+ */
+export interface ExportOptions extends EncryptOptions {
+    /** Compression codec of the payload. Default is `gzip`. */
+    codec?: Codec;
+    /** If given, the payload is encrypted with this password, for private exports. */
+    password?: string;
+}
+
+/**
+ * Options for {@link importCharacter}.
+ */
+export interface ImportOptions extends ParseOptions {
+    /** If given, changes made while migrating the character are added to this report. */
+    report?: MigrationReport;
+    /** Password of an encrypted package. Ignored if the package is not encrypted. */
+    password?: string;
+}
+
+/**
+ * Thrown when a package is not signed, or its signature is invalid.
+ */
+export class SignatureError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SignatureError";
+    }
+}
+
+/**
+ * The result of {@link verifyCharacter}.
+ */
+export interface VerifiedCharacter {
+    /** The imported character. */
+    character: Character;
+    /** Raw Ed25519 public key of the signer, 32 bytes. */
+    publicKey: Uint8Array;
+    /** Hex SHA-256 of the raw public key. Show this, or compare it with known creators. */
+    fingerprint: string;
+}
+
+/**
+ * Prefix of the signed message, so the signature can't be reused for another purpose.
+ */
+const SIGNATURE_CONTEXT = new TextEncoder().encode(
+    "ArisuTalk character signature v1\0",
+);
+
+/**
+ * Builds the message to sign: the context, then the canonical CBOR of the character.
+ * The canonical encoding doesn't depend on the key order, so any client can rebuild it.
+ */
+function signedMessage(value: unknown): Uint8Array<ArrayBuffer> {
+    const cbor = encodeCBOR(value, { canonical: true });
+    const message = new Uint8Array(SIGNATURE_CONTEXT.length + cbor.length);
+    message.set(SIGNATURE_CONTEXT, 0);
+    message.set(cbor, SIGNATURE_CONTEXT.length);
+    return message;
+}
+
+/**
+ * Pipes the whole input through a (de)compression stream.
+ * @param input The bytes to transform.
+ * @param stream The stream to pipe through.
+ * @returns The transformed bytes.
+ */
+async function pipeThrough(
+    input: Uint8Array,
+    stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+    const writer = stream.writable.getWriter();
+    // Write and read concurrently, otherwise backpressure may stall the stream.
+    const [, output] = await Promise.all([
+        writer.write(new Uint8Array(input)).then(() => writer.close()),
+        new Response(stream.readable).arrayBuffer(),
+    ]);
+    return new Uint8Array(output);
+}
+
+/**
+ * Compresses the data with the given codec.
+ * @param input The data to compress.
+ * @param codec The compression codec. Default is `gzip`.
+ * @returns The compressed data.
+ */
+export function compressData(
+    input: Uint8Array,
+    codec: Codec = DEFAULT_CODEC,
+): Promise<Uint8Array> {
+    if (codec === "none") return Promise.resolve(input);
+    return pipeThrough(input, new CompressionStream(codec));
+}
+
+/**
+ * Decompresses the data compressed by {@link compressData}.
+ * @param input The compressed data.
+ * @param codec The compression codec. Default is `gzip`.
+ * @returns The decompressed data.
+ */
+export function decompressData(
+    input: Uint8Array,
+    codec: Codec = DEFAULT_CODEC,
+): Promise<Uint8Array> {
+    if (codec === "none") return Promise.resolve(input);
+    return pipeThrough(input, new DecompressionStream(codec));
+}
+
+/**
+ * Exports the character into a shareable binary file.
+ * The character is encoded with CBOR, compressed, then wrapped with the envelope header.
+ * Binary assets (`Uint8Array`) are stored as-is, without base64 overhead.
+ * Fields unknown to the schema, e.g. kept by `preserveUnknown` on import, are written as-is.
+ * With `password`, the compressed payload is encrypted, and the `encrypted` flag is set.
+ * @param character The character to export. Chat and message history are not included.
+ * @param options Export options.
+ * @returns The exported file content.
+ * @example
+ * ```ts
+ * const backup = await exportCharacter(character, { password: "hunter2" });
+ * ```
+ */
+export function exportCharacter(
+    character: Character,
+    options: ExportOptions = {},
+): Promise<Uint8Array> {
+    return writePackage(character, options);
+}
+
+/**
+ * Encodes, compresses and wraps the character, with the signature block if given.
+ */
+async function writePackage(
+    character: Character,
+    options: ExportOptions,
+    signature?: EnvelopeSignature,
+): Promise<Uint8Array> {
+    const codec = options.codec ?? DEFAULT_CODEC;
+    const header = {
+        codec,
+        flags:
+            (signature ? ENVELOPE_FLAGS.signed : 0) |
+            (options.password !== undefined ? ENVELOPE_FLAGS.encrypted : 0),
+        specVersion: character.specVersion,
+    };
+    let payload = await compressData(encodeCBOR(character), codec);
+    if (options.password !== undefined) {
+        // The header and the signature block are authenticated, so they can't be swapped.
+        const prefix = writeEnvelope(header, new Uint8Array(0), signature);
+        payload = await encryptData(payload, options.password, prefix, options);
+    }
+    return writeEnvelope(header, payload, signature);
+}
+
+/**
+ * Unwraps, decrypts and decodes the package, without validating the character.
+ */
+async function readPackage(
+    bytes: Uint8Array,
+    options: ImportOptions,
+): Promise<{
+    header: EnvelopeHeader;
+    signature?: EnvelopeSignature;
+    decoded: unknown;
+}> {
+    const { header, signature, payload } = readEnvelope(bytes);
+    const unknownFlags =
+        header.flags & ~(ENVELOPE_FLAGS.signed | ENVELOPE_FLAGS.encrypted);
+    if (unknownFlags !== 0)
+        throw new EnvelopeError(`Unsupported envelope flags: ${unknownFlags}`);
+
+    let compressed = payload;
+    if (header.flags & ENVELOPE_FLAGS.encrypted) {
+        if (options.password === undefined)
+            throw new PasswordRequiredError("The package is encrypted");
+        compressed = await decryptData(
+            payload,
+            options.password,
+            bytes.subarray(0, bytes.length - payload.length),
+        );
+    }
+    const decoded = decodeCBOR(await decompressData(compressed, header.codec));
+    return signature ? { header, signature, decoded } : { header, decoded };
+}
+
+/**
+ * Validates, migrates and verifies assets of the decoded character.
+ */
+async function toCharacter(
+    header: EnvelopeHeader,
+    decoded: unknown,
+    options: ImportOptions,
+): Promise<Character> {
+    const { character, fromVersion, report } = parseAnyCharacter(
+        decoded,
+        options,
+    );
+    options.report?.merge(report);
+    if (fromVersion !== header.specVersion)
+        throw new EnvelopeError(
+            `specVersion mismatch: header says ${header.specVersion}, payload says ${fromVersion}`,
+        );
+    await verifyAssets(character);
+    return character;
+}
+
+/**
+ * Imports the character exported by {@link exportCharacter} or {@link signCharacter}.
+ * The decoded data is validated and migrated to the latest version with {@link parseAnyCharacter},
+ * and assets with a declared `hash` are verified.
+ * The signature of signed packages is not checked. Use {@link verifyCharacter} for that.
+ * @param bytes The exported file content.
+ * @param options Import options.
+ * @returns The imported character.
+ * @throws {EnvelopeError} If the envelope is malformed, or uses unsupported features.
+ * @throws {import("@/encryption").PasswordRequiredError} If the package is encrypted, and no password is given.
+ * @throws {import("@/encryption").WrongPasswordError} If the password is wrong.
+ * @throws {import("@/encryption").CorruptedDataError} If the encrypted payload is corrupted.
+ * @throws {Error} If the data can't be decompressed. The error type depends on the runtime.
+ * @throws {import("@/cbor").CBORError} If the decompressed data is not valid CBOR.
+ * @throws {import("@/migration").MigrationError} If the character can't be migrated.
+ * @throws {import("zod").ZodError} If the decoded data is not a valid character.
+ * @throws {import("@/assets").AssetIntegrityError} If the data of an asset doesn't match its hash.
+ */
+export async function importCharacter(
+    bytes: Uint8Array,
+    options: ImportOptions = {},
+): Promise<Character> {
+    const { header, decoded } = await readPackage(bytes, options);
+    return toCharacter(header, decoded, options);
+}
+
+/**
+ * Generates an Ed25519 key pair for {@link signCharacter}.
+ * The private key is extractable, so creators can back it up.
+ * @returns The key pair.
+ */
+export function generateSigningKey(): Promise<CryptoKeyPair> {
+    return crypto.subtle.generateKey({ name: "Ed25519" }, true, [
+        "sign",
+        "verify",
+    ]) as Promise<CryptoKeyPair>;
+}
+
+/**
+ * Exports the character like {@link exportCharacter}, signed with the Ed25519 key.
+ * The signature covers the canonical CBOR of the character, and is stored in the envelope
+ * with the public key. Clients that don't check signatures import it as usual.
+ * @param character The character to sign and export.
+ * @param key The Ed25519 key pair of the creator. The public key must be extractable.
+ * @param options Export options.
+ * @returns The signed file content.
+ * @throws {DOMException} If the key is not an Ed25519 key pair.
+ * @example
+ * ```ts
+ * const key = await generateSigningKey();
+ * const bytes = await signCharacter(character, key);
+ * const { fingerprint } = await verifyCharacter(bytes);
+ * ```
+ */
+export async function signCharacter(
+    character: Character,
+    key: CryptoKeyPair,
+    options: ExportOptions = {},
+): Promise<Uint8Array> {
+    const publicKey = new Uint8Array(
+        await crypto.subtle.exportKey("raw", key.publicKey),
+    );
+    const signature = new Uint8Array(
+        await crypto.subtle.sign(
+            { name: "Ed25519" },
+            key.privateKey,
+            signedMessage(character),
+        ),
+    );
+    return writePackage(character, options, { publicKey, signature });
+}
+
+/**
+ * Imports the character signed by {@link signCharacter}, and verifies the signature.
+ * The signature proves that the holder of the key exported the character. Whether the key
+ * belongs to the claimed creator is up to the caller, e.g. by comparing the fingerprint.
+ * @param bytes The signed file content.
+ * @param options Import options.
+ * @returns The character, and the public key and its fingerprint.
+ * @throws {SignatureError} If the package is not signed, or the signature is invalid.
+ * @throws {EnvelopeError} See {@link importCharacter}, and other errors thrown by it.
+ */
+export async function verifyCharacter(
+    bytes: Uint8Array,
+    options: ImportOptions = {},
+): Promise<VerifiedCharacter> {
+    const { header, signature, decoded } = await readPackage(bytes, options);
+    if (!signature) throw new SignatureError("The package is not signed");
+
+    const publicKey = await crypto.subtle
+        .importKey(
+            "raw",
+            signature.publicKey as Uint8Array<ArrayBuffer>,
+            { name: "Ed25519" },
+            true,
+            ["verify"],
+        )
+        .catch(() => {
+            throw new SignatureError("Invalid public key");
+        });
+    const valid = await crypto.subtle.verify(
+        { name: "Ed25519" },
+        publicKey,
+        signature.signature as Uint8Array<ArrayBuffer>,
+        signedMessage(decoded),
+    );
+    if (!valid) throw new SignatureError("Invalid signature");
+
+    return {
+        character: await toCharacter(header, decoded, options),
+        publicKey: signature.publicKey,
+        fingerprint: await hashContent(signature.publicKey),
+    };
+}
@@ -14,6 +14,14 @@ export const AssetEntitySchema = z
         data: FileSchema.meta({
             description: "The data of the asset.",
         }),
+        hash: z
+            .string()
+            .regex(/^[0-9a-f]{64}$/)
+            .optional()
+            .meta({
+                description:
+                    "Hex SHA-256 of the data. Optional. If present, importers reject the asset when the data doesn't match.",
+            }),
     })
     .meta({
         description:
@@ -18,6 +18,10 @@ export const MetaSchema = z
         version: z.string().optional().meta({
             description: "The version of the character. Optional.",
         }),
+        tags: z.array(z.string()).optional().meta({
+            description:
+                "Tags of the character, used for search and categorization. Optional.",
+        }),
 
         distributedOn: z
             .string()
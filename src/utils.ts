@@ -12,3 +12,122 @@ export function apply<T extends z.ZodType>(
 ): z.output<T> {
     return schema.parse(data);
 }
+
+/**
+ * Checks if the value is a non-array object, excluding binary data.
+ * @param value The value to check.
+ * @returns True if the value can be treated as a record of fields.
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        !(value instanceof Uint8Array)
+    );
+}
+
+/**
+ * Copies fields of the input which are missing in the output, at every level.
+ * Arrays are matched by index, since schemas don't reorder them.
+ * @param input The raw input data, before parsing.
+ * @param output The parsed output. Mutated in place.
+ * @returns The output, with unknown fields restored.
+ */
+export function restoreUnknownKeys<T>(input: unknown, output: T): T {
+    if (isRecord(input) && isRecord(output)) {
+        const record: Record<string, unknown> = output;
+        for (const key of Object.keys(input)) {
+            if (Object.hasOwn(record, key)) {
+                record[key] = restoreUnknownKeys(input[key], record[key]);
+                continue;
+            }
+            // defineProperty, so keys like `__proto__` stay plain fields.
+            Object.defineProperty(record, key, {
+                value: input[key],
+                enumerable: true,
+                writable: true,
+                configurable: true,
+            });
+        }
+    } else if (Array.isArray(input) && Array.isArray(output)) {
+        output.forEach((item, i) => {
+            output[i] = restoreUnknownKeys(input[i], item);
+        });
+    }
+    return output;
+}
+
+/**
+ * Same as {@link apply}, but keeps fields which are unknown to the schema, at every level.
+ * Useful for forward compatibility, so fields added by newer clients survive a re-save.
+ * Unknown fields are not typed, and not validated.
+ * @param schema The Zod schema to apply.
+ * @param data The data to be validated and parsed.
+ * @returns The parsed output of the schema, with unknown fields preserved.
+ */
+export function applyPreservingUnknown<T extends z.ZodType>(
+    schema: T,
+    data: z.input<T>,
+): z.output<T> {
+    return restoreUnknownKeys(data, schema.parse(data));
+}
+
+/**
+ * Encodes binary data as base64.
+ * @param bytes The binary data.
+ * @returns The base64 string.
+ */
+export function toBase64(bytes: Uint8Array): string {
+    let binary = "";
+    // Chunked, since spreading a large array overflows the call stack.
+    for (let i = 0; i < bytes.length; i += 0x8000)
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+}
+
+/**
+ * Decodes base64 into binary data.
+ * @param base64 The base64 string. Whitespace is ignored.
+ * @returns The binary data.
+ * @throws {DOMException} If the input is not valid base64.
+ */
+export function fromBase64(base64: string): Uint8Array {
+    const binary = atob(base64.replace(/\s+/g, ""));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+/**
+ * Encodes binary data as a `data:` URL with base64 payload.
+ * @param bytes The binary data.
+ * @param mimeType MIME type of the data.
+ * @returns The `data:` URL.
+ */
+export function toDataURL(bytes: Uint8Array, mimeType: string): string {
+    return `data:${mimeType};base64,${toBase64(bytes)}`;
+}
+
+/**
+ * Decodes a `data:` URL into its MIME type and binary data.
+ * @param url The `data:` URL. Both base64 and percent-encoded payloads are supported.
+ * @returns The MIME type and binary data, or null if it's not a valid `data:` URL.
+ */
+export function fromDataURL(
+    url: string,
+): { mimeType: string; data: Uint8Array } | null {
+    const match = /^data:([^,]*?)(;base64)?,(.*)$/is.exec(url);
+    if (!match) return null;
+    const [, mediaType = "", base64, payload = ""] = match;
+    const mimeType = mediaType.split(";")[0] || "text/plain";
+    try {
+        if (base64) return { mimeType, data: fromBase64(payload) };
+        return {
+            mimeType,
+            data: new TextEncoder().encode(decodeURIComponent(payload)),
+        };
+    } catch {
+        return null;
+    }
+}
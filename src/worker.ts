@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Reference {@link ScriptEvaluator} for Node, running scripts in worker threads.
+ * The worker limits memory with `resourceLimits`, and is terminated when the timeout passes.
+ * Scripts run in a fresh `vm` context without `require` or `process`, but `vm` is not
+ * a security boundary. Use a stronger sandbox for untrusted characters on shared servers.
+ */
+/// <reference types="node" />
+import { Worker } from "node:worker_threads";
+import {
+    DEFAULT_SCRIPT_LIMITS,
+    resolveScriptLimits,
+    type ScriptBatchRequest,
+    type ScriptEvaluator,
+    type ScriptLimits,
+    type ScriptResult,
+} from "@/script";
+
+/**
+ * Source of the worker. Evaluated as CommonJS, so it uses `require`.
+ * Posts `ready` once started, then evaluates the code for each message of variables.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+const vm = require("node:vm");
+const fail = (e) => ({
+    status: "error",
+    error: { name: String(e?.name ?? "Error"), message: String(e?.message ?? e) },
+});
+const post = (result) => {
+    try {
+        parentPort.postMessage(result);
+    } catch (e) {
+        parentPort.postMessage(fail(e));
+    }
+};
+let script;
+parentPort.on("message", (variables) => {
+    try {
+        script ??= new vm.Script(workerData.code);
+        const value = script.runInNewContext(variables, { timeout: workerData.timeout });
+        Promise.resolve(value).then((v) => post({ status: "ok", value: v }), (e) => post(fail(e)));
+    } catch (e) {
+        post(e?.code === "ERR_SCRIPT_EXECUTION_TIMEOUT" ? { status: "timeout" } : fail(e));
+    }
+});
+parentPort.postMessage({ status: "ready" });
+`;
+
+/**
+ * Converts an error of the host into a result.
+ */
+const toErrorResult = (error: Error): ScriptResult => ({
+    status: "error",
+    error: { name: error.name, message: error.message },
+});
+
+/**
+ * Creates an evaluator which runs scripts in Node worker threads.
+ * Each call of `evaluate` or `evaluateEach` starts one worker, which is terminated when it's done.
+ * The timeout of each evaluation starts once the worker is ready, so its startup is not counted.
+ * @param host Upper limits of the host. Default is {@link DEFAULT_SCRIPT_LIMITS}.
+ * @returns The evaluator.
+ * @example
+ * ```ts
+ * const evaluator = createWorkerEvaluator({ timeout: 5, mem: 32 });
+ * const result = await evaluator.evaluate("a + b", {
+ *     variables: { a: 1, b: 2 },
+ *     runtimeSetting: character.executables.runtimeSetting,
+ * });
+ * ```
+ */
+export function createWorkerEvaluator(
+    host: ScriptLimits = DEFAULT_SCRIPT_LIMITS,
+): ScriptEvaluator {
+    const evaluateEach = (
+        code: string,
+        request: ScriptBatchRequest,
+    ): Promise<ScriptResult[]> => {
+        const limits = resolveScriptLimits(request.runtimeSetting, host);
+        const timeout = limits.timeout * 1000;
+        const results: ScriptResult[] = [];
+        if (request.variables.length === 0) return Promise.resolve(results);
+        return new Promise<ScriptResult[]>((resolve) => {
+            const worker = new Worker(WORKER_SOURCE, {
+                eval: true,
+                workerData: { code, timeout },
+                resourceLimits: { maxOldGenerationSizeMb: limits.mem },
+            });
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            let done = false;
+            const finish = (failure?: ScriptResult): void => {
+                if (done) return;
+                done = true;
+                clearTimeout(timer);
+                if (failure) results.push(failure);
+                resolve(results);
+                void worker.terminate();
+            };
+            const next = (): void => {
+                if (results.length === request.variables.length) {
+                    finish();
+                    return;
+                }
+                try {
+                    worker.postMessage(request.variables[results.length]);
+                } catch (e) {
+                    // e.g. variables are not cloneable.
+                    finish(toErrorResult(e as Error));
+                    return;
+                }
+                // Covers asynchronous code, e.g. endless microtasks, which `vm` can't interrupt.
+                timer = setTimeout(
+                    () =>
+                        finish({ status: "timeout", timeout: limits.timeout }),
+                    timeout,
+                );
+            };
+            worker.on(
+                "message",
+                (message: ScriptResult | { status: "ready" }) => {
+                    clearTimeout(timer);
+                    if (message.status === "ok") results.push(message);
+                    if (message.status === "ready" || message.status === "ok")
+                        next();
+                    else
+                        finish(
+                            message.status === "timeout"
+                                ? { status: "timeout", timeout: limits.timeout }
+                                : message,
+                        );
+                },
+            );
+            worker.once("error", (error: Error & { code?: string }) =>
+                finish(
+                    error.code === "ERR_WORKER_OUT_OF_MEMORY"
+                        ? { status: "memory", mem: limits.mem }
+                        : toErrorResult(error),
+                ),
+            );
+            worker.once("exit", () =>
+                finish({
+                    status: "error",
+                    error: {
+                        name: "Error",
+                        message: "Worker exited without a result",
+                    },
+                }),
+            );
+        });
+    };
+
+    return {
+        async evaluate(code, request) {
+            const [result] = await evaluateEach(code, {
+                variables: [request.variables],
+                runtimeSetting: request.runtimeSetting,
+            });
+            return result as ScriptResult;
+        },
+        evaluateEach,
+    };
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import {
+    AssetError,
+    AssetIntegrityError,
+    dedupeAssets,
+    externalizeAssets,
+    hashContent,
+    hashFile,
+    internalizeAssets,
+    MemoryAssetStore,
+    parseLocalURL,
+    verifyAssets,
+} from "@/assets";
+import { CharacterSchema } from "@/types/v0/Character";
+import { MessageSchema } from "@/types/v0/Character/Message";
+import { createCharacter } from "./fixtures";
+
+const PIXEL = new Uint8Array([1, 2, 3]);
+const PIXEL_HASH =
+    "039058c6f2c0cb492c533b0a4d14ef77cc0f78abccced5287d84a1a2011cfb81";
+
+const character = createCharacter({
+    assets: {
+        assets: [
+            { name: "a.png", mimeType: "image/png", data: PIXEL },
+            {
+                name: "b.png",
+                mimeType: "image/png",
+                data: "data:image/png;base64,AQID",
+            },
+            {
+                name: "c.png",
+                mimeType: "image/png",
+                data: "https://example.com/c.png",
+            },
+        ],
+    },
+});
+
+describe("hashContent", () => {
+    it("returns the hex SHA-256", async () => {
+        expect(await hashContent(PIXEL)).toBe(PIXEL_HASH);
+        expect(await hashFile("data:image/png;base64,AQID")).toBe(PIXEL_HASH);
+        expect(await hashFile(`local:${PIXEL_HASH}`)).toBe(PIXEL_HASH);
+        expect(await hashFile("https://example.com/c.png")).toBeNull();
+    });
+});
+
+describe("dedupeAssets", () => {
+    it("fills hashes and shares identical binaries", async () => {
+        const copy = CharacterSchema.parse({
+            ...character,
+            assets: {
+                assets: [
+                    ...character.assets.assets,
+                    {
+                        name: "d.png",
+                        mimeType: "image/png",
+                        data: PIXEL.slice(),
+                    },
+                ],
+            },
+        });
+        const { value, unique, duplicates } = await dedupeAssets(copy);
+        expect([unique, duplicates]).toEqual([1, 2]);
+        expect(value.assets.assets.map((a) => a.hash)).toEqual([
+            PIXEL_HASH,
+            PIXEL_HASH,
+            undefined,
+            PIXEL_HASH,
+        ]);
+        expect(value.assets.assets[3]?.data).toBe(value.assets.assets[0]?.data);
+        expect(value.assets.assets[1]?.data).toBe("data:image/png;base64,AQID");
+    });
+});
+
+describe("verifyAssets", () => {
+    it("rejects assets whose data doesn't match the hash", async () => {
+        const { value } = await dedupeAssets(character);
+        await expect(verifyAssets(value)).resolves.toBeUndefined();
+
+        const tampered = CharacterSchema.parse({
+            ...value,
+            assets: {
+                assets: value.assets.assets.map((a, i) =>
+                    i === 1 ? { ...a, data: "data:image/png;base64,AQIE" } : a,
+                ),
+            },
+        });
+        const error = await verifyAssets(tampered).catch((e) => e);
+        expect(error).toBeInstanceOf(AssetIntegrityError);
+        expect(error.path).toBe("$.assets.assets[1]");
+        await expect(
+            internalizeAssets(tampered, new MemoryAssetStore()),
+        ).rejects.toThrow(AssetIntegrityError);
+    });
+});
+
+describe("internalizeAssets", () => {
+    it("moves binaries and data: URLs into the store", async () => {
+        const store = new MemoryAssetStore();
+        const internal = await internalizeAssets(character, store);
+        expect(internal.assets.assets.map((a) => a.data)).toEqual([
+            `local:${PIXEL_HASH}`,
+            `local:${PIXEL_HASH}`,
+            "https://example.com/c.png",
+        ]);
+        expect(store.size).toBe(1);
+        expect(await store.get(PIXEL_HASH)).toEqual(PIXEL);
+        expect(character.assets.assets[0]?.data).toBe(PIXEL);
+        expect(internal.prompt).toBe(character.prompt);
+    });
+
+    it("converts only the files known to the schema", async () => {
+        const store = new MemoryAssetStore();
+        // Kept by `preserveUnknown`, but not a file of the spec.
+        const extra = { data: PIXEL, mimeType: "image/png" };
+        const internal = await internalizeAssets(
+            { ...character, extra },
+            store,
+        );
+        expect(internal.extra).toBe(extra);
+        expect(internal.assets.assets[0]?.data).toBe(`local:${PIXEL_HASH}`);
+    });
+
+    it("converts inlays and file content of messages", async () => {
+        const store = new MemoryAssetStore();
+        const messages = [
+            MessageSchema.parse({
+                id: "m1",
+                chatId: "c1",
+                role: "user",
+                content: { type: "file", mimeType: "image/png", data: PIXEL },
+                inlays: [{ name: "i", mimeType: "image/png", data: PIXEL }],
+            }),
+            MessageSchema.parse({
+                id: "m2",
+                chatId: "c1",
+                role: "assistant",
+                content: { type: "text", data: "data:text/plain,hi" },
+            }),
+        ];
+        const internal = await internalizeAssets(messages, store);
+        expect(internal[0]?.content.data).toBe(`local:${PIXEL_HASH}`);
+        expect(internal[0]?.inlays[0]?.data).toBe(`local:${PIXEL_HASH}`);
+        expect(internal[1]).toBe(messages[1]);
+
+        const external = await externalizeAssets(internal, store);
+        expect(external[0]?.content).toEqual(messages[0]?.content);
+        expect(external[0]?.inlays).toEqual([
+            { name: "i", mimeType: "image/png", data: PIXEL, hash: PIXEL_HASH },
+        ]);
+    });
+});
+
+describe("externalizeAssets", () => {
+    it("embeds the binaries again", async () => {
+        const store = new MemoryAssetStore();
+        const internal = await internalizeAssets(character, store);
+        const external = await externalizeAssets(internal, store);
+        expect(external.assets.assets.map((a) => a.data)).toEqual([
+            PIXEL,
+            PIXEL,
+            "https://example.com/c.png",
+        ]);
+        const asDataURL = await externalizeAssets(internal, store, {
+            as: "dataURL",
+        });
+        expect(asDataURL.assets.assets[0]?.data).toBe(
+            "data:image/png;base64,AQID",
+        );
+    });
+
+    it("throws if a local: URL is missing", async () => {
+        const internal = await internalizeAssets(
+            character,
+            new MemoryAssetStore(),
+        );
+        await expect(
+            externalizeAssets(internal, new MemoryAssetStore()),
+        ).rejects.toThrow(AssetError);
+        expect(parseLocalURL("https://example.com")).toBeNull();
+    });
+});
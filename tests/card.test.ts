@@ -0,0 +1,339 @@
+import { describe, expect, it } from "vitest";
+import { CardV3Schema, exportCharacterCard, importCharacterCard } from "@/card";
+import { detectFormat } from "@/detect";
+import { CharacterSchema } from "@/types/v0/Character";
+import { createCharacter } from "./fixtures";
+
+const v2 = {
+    spec: "chara_card_v2",
+    spec_version: "2.0",
+    data: {
+        name: "Aris",
+        description: "A girl from Millennium.",
+        personality: "Cheerful",
+        scenario: "Game Development Club",
+        first_mes: "Welcome, Sensei!",
+        mes_example: "",
+        creator_notes: "Light Attribute AoE Dealer.",
+        system_prompt: "",
+        post_history_instructions: "Stay in character.",
+        alternate_greetings: [],
+        tags: ["blue archive", "game"],
+        creator: "concertypin",
+        character_version: "1.2",
+        extensions: {},
+        character_book: {
+            token_budget: 500,
+            scan_depth: 4,
+            extensions: {},
+            entries: [
+                {
+                    keys: ["Yuzu", "Momoi"],
+                    content: "Members of the club.",
+                    extensions: {},
+                    enabled: true,
+                    insertion_order: 10,
+                    comment: "Club members",
+                },
+                {
+                    keys: ["Hikari"],
+                    content: "Always there.",
+                    extensions: {},
+                    enabled: false,
+                    insertion_order: 0,
+                    constant: true,
+                    case_sensitive: true,
+                    id: 7,
+                },
+                {
+                    keys: ["Key"],
+                    content: "Case sensitive.",
+                    extensions: {},
+                    enabled: true,
+                    insertion_order: 0,
+                    case_sensitive: true,
+                    priority: 3,
+                    selective: true,
+                    secondary_keys: ["Other"],
+                },
+            ],
+        },
+    },
+};
+
+const v3 = {
+    spec: "chara_card_v3",
+    spec_version: "3.0",
+    data: {
+        ...v2.data,
+        character_book: {
+            extensions: {},
+            entries: [
+                {
+                    keys: ["/ari(s|su)/", "^Tendou$"],
+                    content: "Regex",
+                    extensions: {},
+                    enabled: true,
+                    insertion_order: 0,
+                    use_regex: true,
+                },
+            ],
+        },
+        assets: [
+            {
+                type: "icon",
+                uri: "https://example.com/aris.png",
+                name: "main",
+                ext: "png",
+            },
+            {
+                type: "background",
+                uri: "embeded://bg.png",
+                name: "bg",
+                ext: "png",
+            },
+        ],
+        nickname: "Tendou Aris",
+        source: ["https://example.com/aris"],
+        group_only_greetings: [],
+        creation_date: 1700000000,
+    },
+};
+
+describe("importCharacterCard", () => {
+    it("maps a V2 card into a valid character", () => {
+        const { character, report } = importCharacterCard(v2, { id: "c1" });
+        expect(() => CharacterSchema.parse(character)).not.toThrow();
+
+        expect(character.id).toBe("c1");
+        expect(character.name).toBe("Aris");
+        expect(character.description).toBe("Light Attribute AoE Dealer.");
+        expect(character.prompt.description).toBe(
+            "A girl from Millennium.\n\n" +
+                "{{char}}'s personality: Cheerful\n\n" +
+                "Scenario: Game Development Club",
+        );
+        expect(character.prompt.authorsNote).toBe("Stay in character.");
+        expect(character.metadata).toEqual({
+            license: "ARR",
+            author: "concertypin",
+            version: "1.2",
+            tags: ["blue archive", "game"],
+        });
+
+        const { config, data } = character.prompt.lorebook;
+        expect(config.tokenLimit).toBe(500);
+        expect(data.map((e) => e.id)).toEqual(["0", "7", "2"]);
+        expect(data[0]).toMatchObject({
+            name: "Club members",
+            condition: [
+                { type: "plain_text_match", text: "Yuzu" },
+                { type: "plain_text_match", text: "Momoi" },
+            ],
+            priority: 10,
+        });
+        expect(data[1]).toMatchObject({
+            condition: [{ type: "always" }],
+            enabled: false,
+        });
+        expect(data[2]?.condition).toEqual([
+            { type: "regex_match", regexPattern: "Key" },
+        ]);
+
+        const lossy = report.filter("lossy").map((e) => e.path);
+        expect(lossy).toContain("$.data.first_mes");
+        expect(lossy).toContain("$.data.character_book.scan_depth");
+        expect(lossy).toContain(
+            "$.data.character_book.entries[2].secondary_keys",
+        );
+        expect(lossy).not.toContain("$.data.mes_example");
+    });
+
+    it("maps V3 regex keys, assets and sources", () => {
+        const { character, report } = importCharacterCard(v3);
+        expect(character.prompt.lorebook.data[0]?.condition).toEqual([
+            { type: "regex_match", regexPattern: "ari(s|su)", regexFlags: "i" },
+            { type: "regex_match", regexPattern: "^Tendou$", regexFlags: "i" },
+        ]);
+        expect(character.assets.assets).toEqual([
+            {
+                name: "main.png",
+                mimeType: "image/png",
+                data: "https://example.com/aris.png",
+            },
+        ]);
+        expect(character.avatarUrl).toBe("main.png");
+        expect(character.metadata.distributedOn).toBe(
+            "https://example.com/aris",
+        );
+
+        const lossy = report.filter("lossy").map((e) => e.path);
+        expect(lossy).toContain("$.data.assets[1].uri");
+        expect(lossy).toContain("$.data.nickname");
+        expect(lossy).toContain("$.data.creation_date");
+    });
+
+    it("uses the carrier image as the avatar without an icon asset", () => {
+        const image = new Uint8Array([1, 2, 3]);
+        const empty = importCharacterCard(
+            { ...v3, data: { ...v3.data, assets: [] } },
+            { image },
+        ).character;
+        expect(empty.avatarUrl).toBe("main.png");
+        expect(empty.assets.assets).toEqual([
+            { name: "main.png", mimeType: "image/png", data: image },
+        ]);
+
+        const background = {
+            type: "background",
+            uri: "https://example.com/main.png",
+            name: "main",
+            ext: "png",
+        };
+        const { character } = importCharacterCard(
+            { ...v3, data: { ...v3.data, assets: [background] } },
+            { image },
+        );
+        expect(character.avatarUrl).toBe("icon-main.png");
+        expect(character.assets.assets.map((a) => a.name)).toEqual([
+            "main.png",
+            "icon-main.png",
+        ]);
+    });
+
+    it("reports unknown fields and rejects non-cards", () => {
+        const { report } = importCharacterCard({
+            ...v2,
+            data: { ...v2.data, depth_prompt: "x" },
+        });
+        expect(report.filter("lossy").map((e) => e.path)).toContain(
+            "$.data.depth_prompt",
+        );
+        expect(() => importCharacterCard({ spec: "chara_card_v1" })).toThrow();
+    });
+
+    it("is detected from JSON", () => {
+        const bytes = new TextEncoder().encode(JSON.stringify(v3));
+        expect(detectFormat(bytes)).toEqual({
+            format: "ccv3",
+            parser: "importCharacterCard",
+        });
+    });
+});
+
+describe("exportCharacterCard", () => {
+    const character = createCharacter({
+        description: "Light Attribute AoE Dealer.",
+        avatarUrl: "aris.png",
+        prompt: {
+            description: "You are Aris.",
+            authorsNote: "Stay in character.",
+            lorebook: {
+                config: { tokenLimit: 300 },
+                data: [
+                    {
+                        id: "l1",
+                        name: "Club",
+                        condition: [
+                            { type: "plain_text_match", text: "Yuzu" },
+                            { type: "regex_match", regexPattern: "Momoi?" },
+                        ],
+                        multipleConditionResolveStrategy: "all",
+                        content: "Members",
+                        priority: 2,
+                    },
+                    {
+                        id: "l2",
+                        name: "Always",
+                        condition: [{ type: "always" }],
+                        content: "Always",
+                    },
+                ],
+            },
+        },
+        executables: {
+            replaceHooks: {
+                output: [
+                    {
+                        input: "(\\w+)-chan",
+                        output: "$1",
+                        meta: { type: "regex", flag: "g" },
+                    },
+                    {
+                        input: "x",
+                        output: "y",
+                        meta: { type: "string", isOutputScripted: true },
+                    },
+                ],
+            },
+        },
+        metadata: { author: "concertypin", license: "CC-BY-4.0", tags: ["a"] },
+        assets: {
+            assets: [
+                {
+                    name: "aris.png",
+                    mimeType: "image/png",
+                    data: new Uint8Array([1, 2, 3]),
+                },
+                { name: "bg", mimeType: "image/webp", data: "local:bg" },
+            ],
+        },
+    });
+
+    it("exports a valid Character Card V3", () => {
+        const { card } = exportCharacterCard(character);
+        const parsed = CardV3Schema.parse(card);
+        expect(parsed.data).toMatchObject({
+            name: "Aris",
+            description: "You are Aris.",
+            creator_notes: "Light Attribute AoE Dealer.",
+            post_history_instructions: "Stay in character.",
+            creator: "concertypin",
+            tags: ["a"],
+        });
+        expect(parsed.data.character_book?.token_budget).toBe(300);
+        expect(parsed.data.character_book?.entries).toMatchObject([
+            {
+                keys: ["/Yuzu/i", "/Momoi?/"],
+                use_regex: true,
+                constant: false,
+                insertion_order: 2,
+            },
+            { keys: [], constant: true },
+        ]);
+        expect(parsed.data.assets).toEqual([
+            {
+                type: "icon",
+                uri: "data:image/png;base64,AQID",
+                name: "main",
+                ext: "png",
+            },
+        ]);
+        expect(parsed.data.extensions.regex_scripts).toMatchObject([
+            {
+                findRegex: "/(\\w+)-chan/g",
+                replaceString: "$1",
+                placement: [2],
+            },
+        ]);
+    });
+
+    it("reports what Character Card V3 can't express", () => {
+        const { report } = exportCharacterCard(character);
+        expect(report.filter("lossy").map((e) => e.path)).toEqual([
+            "$.prompt.lorebook.data[0].multipleConditionResolveStrategy",
+            "$.executables.replaceHooks.output[1]",
+            "$.metadata.license",
+            "$.assets.assets[1].data",
+        ]);
+    });
+
+    it("round-trips the lorebook through the importer", () => {
+        const { card } = exportCharacterCard(character);
+        const { character: imported } = importCharacterCard(card);
+        expect(imported.prompt.lorebook.data[1]?.condition).toEqual([
+            { type: "always" },
+        ]);
+        expect(imported.avatarUrl).toBe("main.png");
+    });
+});
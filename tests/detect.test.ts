@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { detectFormat } from "@/detect";
+import { exportCharacter } from "@/transport";
+import { createCharacter } from "./fixtures";
+
+const encoder = new TextEncoder();
+
+const character = createCharacter();
+
+describe("detectFormat", () => {
+    it("recognises the transport envelope", async () => {
+        const detected = detectFormat(await exportCharacter(character));
+        expect(detected).toMatchObject({
+            format: "arisutalk",
+            header: { codec: "gzip", specVersion: 0 },
+            parser: "importCharacter",
+        });
+    });
+
+    it("recognises raw JSON characters", () => {
+        const bytes = encoder.encode(`\uFEFF  ${JSON.stringify(character)}`);
+        expect(detectFormat(bytes)).toEqual({
+            format: "json",
+            specVersion: 0,
+            parser: "parseAnyCharacter",
+        });
+    });
+
+    it("reports unknown data with a reason", () => {
+        // Plain gzip header, without our envelope
+        const gzip = new Uint8Array([0x1f, 0x8b, 8, 0, 0, 0, 0, 0]);
+        expect(detectFormat(gzip)).toMatchObject({
+            format: "unknown",
+            parser: null,
+        });
+        expect(detectFormat(encoder.encode("[1, 2]")).format).toBe("unknown");
+        expect(
+            detectFormat(new Uint8Array([0x41, 0x52, 0x54, 0x43, 9])),
+        ).toMatchObject({ format: "unknown" });
+    });
+});
@@ -0,0 +1,28 @@
+/**
+ * @fileoverview Shared fixtures of the tests.
+ */
+import { type Character, CharacterSchema } from "@/types/v0/Character";
+
+/**
+ * Raw data of a minimal valid character, before parsing.
+ * @param overrides Top-level fields to replace. Override only what the test cares about.
+ */
+export const characterData = (overrides: Record<string, unknown> = {}) => ({
+    specVersion: 0,
+    id: "c1",
+    name: "Aris",
+    description: "desc",
+    prompt: { description: "d", lorebook: {} },
+    executables: {},
+    metadata: {},
+    assets: {},
+    ...overrides,
+});
+
+/**
+ * A minimal valid character, parsed with {@link CharacterSchema}.
+ * @param overrides Top-level fields to replace, before parsing.
+ */
+export const createCharacter = (
+    overrides: Record<string, unknown> = {},
+): Character => CharacterSchema.parse(characterData(overrides));
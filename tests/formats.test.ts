@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import {
+    anthropic,
+    ChatFormatError,
+    chatml,
+    gemma,
+    llama3,
+    openai,
+} from "@/formats";
+import type { PromptMessage } from "@/prompt";
+import { MessageSchema } from "@/types/v0/Character";
+
+const messages: PromptMessage[] = [
+    { role: "system", content: "You are Aris." },
+    { role: "user", content: "Hi" },
+    { role: "assistant", content: "Hello, Sensei!" },
+];
+
+const image = MessageSchema.parse({
+    id: "m1",
+    chatId: "chat1",
+    role: "user",
+    content: {
+        type: "file",
+        data: new Uint8Array([1, 2, 3]),
+        mimeType: "image/png",
+    },
+});
+
+const local = MessageSchema.parse({
+    id: "m2",
+    chatId: "chat1",
+    role: "user",
+    content: { type: "file", data: "local:a.zip", mimeType: "application/zip" },
+});
+
+describe("instruct formats", () => {
+    it("renders ChatML", () => {
+        expect(chatml.render(messages)).toBe(
+            "<|im_start|>system\nYou are Aris.<|im_end|>\n" +
+                "<|im_start|>user\nHi<|im_end|>\n" +
+                "<|im_start|>assistant\nHello, Sensei!<|im_end|>\n" +
+                "<|im_start|>assistant\n",
+        );
+    });
+
+    it("renders Llama 3 without the generation prompt", () => {
+        expect(
+            llama3.render(messages.slice(0, 2), { addGenerationPrompt: false }),
+        ).toBe(
+            "<|begin_of_text|>" +
+                "<|start_header_id|>system<|end_header_id|>\n\nYou are Aris.<|eot_id|>" +
+                "<|start_header_id|>user<|end_header_id|>\n\nHi<|eot_id|>",
+        );
+    });
+
+    it("renders Gemma, merging system messages into the user turn", () => {
+        expect(gemma.render(messages)).toBe(
+            "<bos><start_of_turn>user\nYou are Aris.\n\nHi<end_of_turn>\n" +
+                "<start_of_turn>model\nHello, Sensei!<end_of_turn>\n" +
+                "<start_of_turn>model\n",
+        );
+    });
+
+    it("handles files it can't represent", () => {
+        expect(chatml.unsupportedFiles).toBe("placeholder");
+        expect(chatml.render([image], { addGenerationPrompt: false })).toBe(
+            "<|im_start|>user\n[file: image/png]<|im_end|>\n",
+        );
+        expect(
+            chatml.render([image], {
+                addGenerationPrompt: false,
+                unsupportedFiles: "omit",
+            }),
+        ).toBe("<|im_start|>user\n<|im_end|>\n");
+        expect(() =>
+            chatml.render([image], { unsupportedFiles: "error" }),
+        ).toThrow(ChatFormatError);
+    });
+});
+
+describe("API formats", () => {
+    it("renders OpenAI messages with images", () => {
+        expect(openai.render([...messages, image, local])).toEqual([
+            { role: "system", content: "You are Aris." },
+            { role: "user", content: "Hi" },
+            { role: "assistant", content: "Hello, Sensei!" },
+            {
+                role: "user",
+                content: [
+                    {
+                        type: "image_url",
+                        image_url: { url: "data:image/png;base64,AQID" },
+                    },
+                ],
+            },
+            { role: "user", content: "[file: application/zip]" },
+        ]);
+        expect(openai.render([local], { unsupportedFiles: "omit" })).toEqual(
+            [],
+        );
+    });
+
+    it("renders Anthropic messages with the system prompt", () => {
+        expect(
+            anthropic.render([
+                ...messages,
+                { role: "system", content: "Stay in character." },
+                image,
+            ]),
+        ).toEqual({
+            system: "You are Aris.",
+            messages: [
+                { role: "user", content: "Hi" },
+                { role: "assistant", content: "Hello, Sensei!" },
+                { role: "user", content: "Stay in character." },
+                {
+                    role: "user",
+                    content: [
+                        {
+                            type: "image",
+                            source: {
+                                type: "base64",
+                                media_type: "image/png",
+                                data: "AQID",
+                            },
+                        },
+                    ],
+                },
+            ],
+        });
+        expect(() =>
+            anthropic.render([local], { unsupportedFiles: "error" }),
+        ).toThrow(ChatFormatError);
+    });
+
+    it("takes the media type of data: URLs from the URL", () => {
+        const jpeg = MessageSchema.parse({
+            ...image,
+            content: {
+                type: "file",
+                data: "data:image/jpeg;base64,AQID",
+                mimeType: "image/png",
+            },
+        });
+        expect(anthropic.render([jpeg]).messages[0]?.content).toEqual([
+            {
+                type: "image",
+                source: {
+                    type: "base64",
+                    media_type: "image/jpeg",
+                    data: "AQID",
+                },
+            },
+        ]);
+    });
+});
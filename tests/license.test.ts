@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import {
+    getLicenseFacts,
+    LicenseSyntaxError,
+    parseLicense,
+    refineLicense,
+    validateLicense,
+} from "@/license";
+import { CharacterSchema } from "@/types/v0/Character";
+import { characterData } from "./fixtures";
+
+describe("parseLicense", () => {
+    it("parses SPDX expressions with precedence and exceptions", () => {
+        expect(
+            parseLicense(
+                "mit OR (Apache-2.0 AND GPL-2.0+ WITH Classpath-exception-2.0)",
+            ),
+        ).toEqual({
+            type: "spdx",
+            expression: {
+                type: "or",
+                left: { type: "license", id: "MIT", orLater: false },
+                right: {
+                    type: "and",
+                    left: { type: "license", id: "Apache-2.0", orLater: false },
+                    right: {
+                        type: "license",
+                        id: "GPL-2.0",
+                        orLater: true,
+                        exception: "Classpath-exception-2.0",
+                    },
+                },
+            },
+        });
+        expect(parseLicense("MIT and ISC or 0BSD")).toMatchObject({
+            expression: { type: "or", left: { type: "and" } },
+        });
+    });
+
+    it("accepts ARR and URLs as special cases", () => {
+        expect(parseLicense("ARR")).toEqual({ type: "arr" });
+        expect(parseLicense("https://example.com/license")).toEqual({
+            type: "url",
+            url: "https://example.com/license",
+        });
+    });
+
+    it.each([
+        ["", 0],
+        ["MIT OR", 6],
+        ["(MIT", 4],
+        ["MIT ISC", 4],
+        ["MIT WITH", 8],
+        ["MIT Or ISC", 4],
+        ["AND", 0],
+    ])("rejects %j", (license, offset) => {
+        const error = (() => {
+            try {
+                parseLicense(license);
+            } catch (e) {
+                return e;
+            }
+        })();
+        expect(error).toBeInstanceOf(LicenseSyntaxError);
+        expect((error as LicenseSyntaxError).offset).toBe(offset);
+    });
+});
+
+describe("validateLicense", () => {
+    it("warns about unknown and deprecated identifiers", () => {
+        expect(validateLicense("CC-BY-4.0 OR LicenseRef-Custom")).toEqual([]);
+        expect(validateLicense("GPL-3.0 OR Foo WITH Bar")).toEqual([
+            {
+                severity: "warning",
+                message: "GPL-3.0 is deprecated, use GPL-3.0-only",
+            },
+            { severity: "warning", message: "Unknown license: Foo" },
+            { severity: "warning", message: "Unknown exception: Bar" },
+        ]);
+        expect(validateLicense("GPL-2.0+")).toEqual([
+            {
+                severity: "warning",
+                message: "GPL-2.0+ is deprecated, use GPL-2.0-or-later",
+            },
+        ]);
+        expect(validateLicense("constructor")).toEqual([
+            { severity: "warning", message: "Unknown license: constructor" },
+        ]);
+        expect(validateLicense("MIT OR")).toMatchObject([
+            { severity: "error" },
+        ]);
+    });
+});
+
+describe("getLicenseFacts", () => {
+    it("combines facts of expressions", () => {
+        expect(getLicenseFacts("CC-BY-NC-ND-4.0")).toEqual({
+            allowsRedistribution: true,
+            allowsCommercialUse: false,
+            allowsDerivatives: false,
+            requiresAttribution: true,
+            requiresShareAlike: false,
+        });
+        expect(getLicenseFacts("CC-BY-ND-4.0 OR CC-BY-SA-4.0")).toMatchObject({
+            allowsDerivatives: true,
+            requiresShareAlike: false,
+        });
+        expect(getLicenseFacts("MIT AND CC-BY-NC-4.0")).toMatchObject({
+            allowsCommercialUse: false,
+            requiresAttribution: true,
+        });
+        expect(getLicenseFacts("ARR").allowsDerivatives).toBe(false);
+        expect(getLicenseFacts("https://example.com").allowsDerivatives).toBe(
+            null,
+        );
+        expect(getLicenseFacts("CC0-1.0 AND Foo")).toMatchObject({
+            allowsDerivatives: null,
+            requiresAttribution: null,
+        });
+    });
+});
+
+describe("refineLicense", () => {
+    it("rejects unparseable licenses", () => {
+        const schema = refineLicense(CharacterSchema);
+        expect(schema.safeParse(characterData()).success).toBe(true);
+        expect(
+            schema.safeParse(characterData({ metadata: { license: "MIT OR" } }))
+                .error?.issues,
+        ).toMatchObject([{ path: ["metadata", "license"] }]);
+    });
+});
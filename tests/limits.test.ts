@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { checkLimits, LIMITS_PROFILES } from "@/limits";
+import { createCharacter } from "./fixtures";
+
+const unlimited = {
+    maxTotalAssetBytes: Number.POSITIVE_INFINITY,
+    maxAssetBytes: Number.POSITIVE_INFINITY,
+    maxDataURLLength: Number.POSITIVE_INFINITY,
+    maxLorebookEntries: Number.POSITIVE_INFINITY,
+    maxHooks: Number.POSITIVE_INFINITY,
+    maxPromptLength: Number.POSITIVE_INFINITY,
+};
+
+describe("checkLimits", () => {
+    it("accepts a small character with the built-in profiles", () => {
+        expect(checkLimits(createCharacter(), "share")).toEqual([]);
+        expect(checkLimits(createCharacter(), LIMITS_PROFILES.local)).toEqual(
+            [],
+        );
+    });
+
+    it("reports asset sizes and data: URL lengths", () => {
+        const data = createCharacter({
+            assets: {
+                assets: [
+                    {
+                        name: "a.bin",
+                        mimeType: "image/png",
+                        data: new Uint8Array(6),
+                    },
+                    {
+                        name: "b.png",
+                        mimeType: "image/png",
+                        data: "data:image/png;base64,AAAAAAAA",
+                    },
+                    {
+                        name: "c.png",
+                        mimeType: "image/png",
+                        data: "https://example.com/c.png",
+                    },
+                ],
+            },
+        });
+        expect(
+            checkLimits(data, {
+                ...unlimited,
+                maxTotalAssetBytes: 10,
+                maxAssetBytes: 5,
+                maxDataURLLength: 20,
+            }),
+        ).toEqual([
+            {
+                path: "$.assets.assets[0].data",
+                limit: "maxAssetBytes",
+                actual: 6,
+                max: 5,
+                message: 'Size of "a.bin" in bytes is 6, over the limit of 5',
+            },
+            {
+                path: "$.assets.assets[1].data",
+                limit: "maxDataURLLength",
+                actual: 30,
+                max: 20,
+                message:
+                    'Length of the data: URL of "b.png" is 30, over the limit of 20',
+            },
+            {
+                path: "$.assets.assets[1].data",
+                limit: "maxAssetBytes",
+                actual: 6,
+                max: 5,
+                message: 'Size of "b.png" in bytes is 6, over the limit of 5',
+            },
+            {
+                path: "$.assets.assets",
+                limit: "maxTotalAssetBytes",
+                actual: 12,
+                max: 10,
+                message:
+                    "Total size of assets in bytes is 12, over the limit of 10",
+            },
+        ]);
+    });
+
+    it("counts a data: URL avatar", () => {
+        const data = createCharacter({
+            avatarUrl: "data:image/png;base64,AAAAAAAA",
+            assets: {
+                assets: [
+                    {
+                        name: "a.bin",
+                        mimeType: "image/png",
+                        data: new Uint8Array(5),
+                    },
+                ],
+            },
+        });
+        expect(
+            checkLimits(data, {
+                ...unlimited,
+                maxTotalAssetBytes: 10,
+                maxDataURLLength: 20,
+            }).map(({ path, limit, actual }) => [path, limit, actual]),
+        ).toEqual([
+            ["$.avatarUrl", "maxDataURLLength", 30],
+            ["$.assets.assets", "maxTotalAssetBytes", 11],
+        ]);
+        expect(
+            checkLimits(createCharacter({ avatarUrl: "a.png" }), "share"),
+        ).toEqual([]);
+    });
+
+    it("reports counts of lorebook entries and hooks, and the prompt length", () => {
+        const hook = { input: "a", meta: { type: "string" }, output: "b" };
+        const data = createCharacter({
+            prompt: {
+                description: "12345",
+                authorsNote: "678",
+                lorebook: {
+                    data: [
+                        { id: "l1", name: "A", content: "a" },
+                        { id: "l2", name: "B", content: "b" },
+                    ],
+                },
+            },
+            executables: {
+                replaceHooks: { display: [hook], input: [hook, hook] },
+            },
+        });
+        expect(
+            checkLimits(data, {
+                ...unlimited,
+                maxLorebookEntries: 1,
+                maxHooks: 2,
+                maxPromptLength: 7,
+            }).map(({ path, limit, actual }) => [path, limit, actual]),
+        ).toEqual([
+            ["$.prompt.lorebook.data", "maxLorebookEntries", 2],
+            ["$.executables.replaceHooks", "maxHooks", 3],
+            ["$.prompt", "maxPromptLength", 8],
+        ]);
+    });
+});
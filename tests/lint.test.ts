@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { lintCharacter } from "@/lint";
+import { createCharacter } from "./fixtures";
+
+describe("lintCharacter", () => {
+    it("returns nothing for a valid character", () => {
+        expect(lintCharacter(createCharacter())).toEqual([]);
+    });
+
+    it("reports semantic problems with paths", () => {
+        const hook = {
+            input: "a",
+            meta: { type: "regex", flag: "g" },
+            output: "b",
+        };
+        const character = createCharacter({
+            avatarUrl: "missing.png",
+            prompt: {
+                description: "  ",
+                lorebook: {
+                    data: [
+                        { id: "l1", name: "Never", content: "c" },
+                        {
+                            id: "l2",
+                            name: "Regex",
+                            content: "{{nope}}",
+                            condition: [
+                                {
+                                    type: "regex_match",
+                                    regexPattern: "{{char}}+",
+                                    regexFlags: "iq",
+                                },
+                                { type: "regex_match", regexPattern: "(" },
+                            ],
+                        },
+                    ],
+                },
+            },
+            executables: {
+                replaceHooks: {
+                    display: [
+                        hook,
+                        hook,
+                        {
+                            input: "[",
+                            meta: { type: "regex", flag: "g" },
+                            output: "",
+                        },
+                        {
+                            input: "[",
+                            meta: {
+                                type: "regex",
+                                flag: "g",
+                                isInputPatternScripted: true,
+                            },
+                            output: "",
+                        },
+                    ],
+                },
+            },
+        });
+        expect(
+            lintCharacter(character).map(({ path, severity, code }) => [
+                path,
+                severity,
+                code,
+            ]),
+        ).toEqual([
+            ["$.avatarUrl", "error", "missing-avatar-asset"],
+            ["$.prompt.description", "warning", "empty-description"],
+            [
+                "$.prompt.lorebook.data[0].condition",
+                "warning",
+                "empty-condition",
+            ],
+            [
+                "$.prompt.lorebook.data[1].condition[0]",
+                "error",
+                "invalid-regex",
+            ],
+            [
+                "$.prompt.lorebook.data[1].condition[1]",
+                "error",
+                "invalid-regex",
+            ],
+            [
+                "$.executables.replaceHooks.display[1]",
+                "warning",
+                "duplicate-hook",
+            ],
+            ["$.executables.replaceHooks.display[2]", "error", "invalid-regex"],
+            [
+                "$.prompt.lorebook.data[1].content",
+                "warning",
+                "invalid-template",
+            ],
+        ]);
+    });
+});
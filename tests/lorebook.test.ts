@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import { activateLorebook, LorebookError, matchEntry } from "@/lorebook";
+import { LorebookDataSchema } from "@/types/v0/Character/Lorebook";
+
+const lorebook = LorebookDataSchema.parse({
+    data: [
+        {
+            id: "always",
+            name: "World",
+            content: "The world is round.",
+            condition: [{ type: "always" }],
+        },
+        {
+            id: "plain",
+            name: "Yuzu",
+            content: "Yuzu is a game developer.",
+            condition: [{ type: "plain_text_match", text: "yuzu" }],
+            priority: 10,
+        },
+        {
+            id: "regex",
+            name: "Momoi",
+            content: "Momoi is Midori's sister.",
+            condition: [
+                {
+                    type: "regex_match",
+                    regexPattern: "momoi|midori",
+                    regexFlags: "gi",
+                },
+            ],
+            priority: -1,
+        },
+        {
+            id: "all",
+            name: "Both",
+            content: "They play together.",
+            condition: [
+                { type: "plain_text_match", text: "yuzu" },
+                { type: "plain_text_match", text: "aris" },
+            ],
+            multipleConditionResolveStrategy: "all",
+            priority: 5,
+        },
+        {
+            id: "disabled",
+            name: "Disabled",
+            content: "Never.",
+            condition: [{ type: "always" }],
+            enabled: false,
+        },
+        { id: "empty", name: "Empty", content: "Never." },
+    ],
+});
+
+describe("activateLorebook", () => {
+    it("activates entries by their conditions and sorts by priority", () => {
+        const { entries, dropped } = activateLorebook(lorebook, {
+            text: "Hello YUZU! Where is Midori?",
+        });
+        expect(entries.map((e) => e.entry.id)).toEqual([
+            "plain",
+            "always",
+            "regex",
+        ]);
+        expect(entries.map((e) => e.reasons)).toEqual([
+            [
+                {
+                    type: "plain_text_match",
+                    condition: 0,
+                    match: "YUZU",
+                    index: 6,
+                },
+            ],
+            [{ type: "always", condition: 0 }],
+            [
+                {
+                    type: "regex_match",
+                    condition: 0,
+                    match: "Midori",
+                    index: 21,
+                },
+            ],
+        ]);
+        expect(dropped).toEqual([]);
+    });
+
+    it("reports the position of plain text matches in the original text", () => {
+        const plain = lorebook.data[1];
+        if (!plain) throw new Error("missing entry");
+        // `İ` becomes two characters when lowercased.
+        expect(matchEntry(plain, "İİ YUZU")).toEqual([
+            {
+                type: "plain_text_match",
+                condition: 0,
+                match: "YUZU",
+                index: 3,
+            },
+        ]);
+    });
+
+    it("applies the all/any strategy", () => {
+        const all = lorebook.data[3];
+        if (!all) throw new Error("missing entry");
+        expect(matchEntry(all, "yuzu")).toBeNull();
+        expect(matchEntry(all, "yuzu and aris")).toHaveLength(2);
+        expect(
+            matchEntry(
+                { ...all, multipleConditionResolveStrategy: "any" },
+                "aris",
+            ),
+        ).toEqual([
+            {
+                type: "plain_text_match",
+                condition: 1,
+                match: "aris",
+                index: 0,
+            },
+        ]);
+    });
+
+    it("drops low-priority entries once the token limit is exceeded", () => {
+        const result = activateLorebook(
+            { ...lorebook, config: { tokenLimit: 11 } },
+            {
+                text: "yuzu, aris, momoi",
+                tokenizer: {
+                    name: "words",
+                    count: (text) => text.split(" ").length,
+                },
+            },
+        );
+        expect(result.entries.map((e) => e.entry.id)).toEqual(["plain", "all"]);
+        expect(result.dropped.map((e) => e.entry.id)).toEqual([
+            "always",
+            "regex",
+        ]);
+        expect(result.tokens).toBe(8);
+    });
+
+    it("skips and reports entries with an invalid regex", () => {
+        const invalid = LorebookDataSchema.parse({
+            data: [
+                {
+                    id: "bad",
+                    name: "Bad",
+                    content: "",
+                    condition: [{ type: "regex_match", regexPattern: "(" }],
+                },
+                {
+                    id: "good",
+                    name: "Good",
+                    content: "",
+                    condition: [{ type: "always" }],
+                },
+            ],
+        });
+        const result = activateLorebook(invalid, { text: "" });
+        expect(result.entries.map((e) => e.entry.id)).toEqual(["good"]);
+        expect(result.failed.map((f) => f.entry.id)).toEqual(["bad"]);
+        expect(result.failed[0]?.error).toBeInstanceOf(LorebookError);
+        const [bad] = invalid.data;
+        if (!bad) throw new Error("missing entry");
+        expect(() => matchEntry(bad, "")).toThrow(LorebookError);
+    });
+});
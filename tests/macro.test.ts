@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+    MacroSyntaxError,
+    parseTemplate,
+    renderTemplate,
+    validateCharacterTemplates,
+    validateTemplate,
+} from "@/macro";
+import { createCharacter } from "./fixtures";
+
+const context = {
+    char: "Aris",
+    user: "Sensei",
+    now: new Date(2024, 2, 25, 9, 5),
+    random: () => 0.6,
+    variables: { mood: "happy", level: 3 },
+};
+
+describe("parseTemplate", () => {
+    it("parses nested macros and comments", () => {
+        expect(parseTemplate("Hi {{ User }}{{// note}}")).toEqual([
+            { type: "text", value: "Hi ", start: 0, end: 3 },
+            { type: "macro", name: "user", args: [], start: 3, end: 13 },
+            { type: "comment", value: " note", start: 13, end: 24 },
+        ]);
+        const [random] = parseTemplate("{{random::{{char}}::b}}");
+        expect(random).toMatchObject({
+            type: "macro",
+            name: "random",
+            args: [
+                [{ type: "macro", name: "char" }],
+                [{ type: "text", value: "b" }],
+            ],
+        });
+    });
+
+    it("throws on unclosed macros", () => {
+        expect(() => parseTemplate("{{char")).toThrow(MacroSyntaxError);
+        expect(() => parseTemplate("{{{{char}}}}")).toThrow(
+            "Macro name must be plain text",
+        );
+    });
+});
+
+describe("renderTemplate", () => {
+    it("renders built-in macros with the context", () => {
+        expect(
+            renderTemplate(
+                "{{char}} greets {{user}} on {{date}} {{time}}. :: }}",
+                context,
+            ),
+        ).toBe("Aris greets Sensei on 2024-03-25 09:05. :: }}");
+        expect(renderTemplate("{{random::a::{{char}}}}", context)).toBe("Aris");
+        expect(
+            renderTemplate(
+                "{{getvar::mood}} {{getvar::level}}{{getvar::x}}",
+                context,
+            ),
+        ).toBe("happy 3");
+    });
+
+    it("renders unknown macros as is", () => {
+        expect(renderTemplate("{{unknown::a}} {{char::x}}", context)).toBe(
+            "{{unknown::a}} {{char::x}}",
+        );
+    });
+});
+
+describe("validateTemplate", () => {
+    it("reports unknown macros and wrong arguments", () => {
+        expect(validateTemplate("{{char}} {{random::{{nope}}}}")).toEqual([
+            {
+                kind: "unknown-macro",
+                message: "Unknown macro: nope",
+                start: 19,
+                end: 27,
+            },
+        ]);
+        expect(validateTemplate("{{getvar}}")).toEqual([
+            {
+                kind: "arguments",
+                message: "Macro getvar takes 1 argument, but got 0",
+                start: 0,
+                end: 10,
+            },
+        ]);
+        expect(validateTemplate("{{char")).toEqual([
+            { kind: "syntax", message: "Unclosed macro", start: 0, end: 6 },
+        ]);
+    });
+
+    it("validates scriptable fields of the character", () => {
+        const character = createCharacter({
+            description: "{{not scriptable}}",
+            prompt: {
+                description: "{{char}} is {{persona}}.",
+                lorebook: {
+                    data: [
+                        {
+                            id: "l1",
+                            name: "entry",
+                            content: "{{user}}",
+                            condition: [
+                                { type: "plain_text_match", text: "{{bad" },
+                            ],
+                        },
+                    ],
+                },
+            },
+        });
+        expect(validateCharacterTemplates(character)).toEqual([
+            {
+                path: "$.prompt.description",
+                kind: "unknown-macro",
+                message: "Unknown macro: persona",
+                start: 12,
+                end: 23,
+            },
+            {
+                path: "$.prompt.lorebook.data[0].condition[0].text",
+                kind: "syntax",
+                message: "Unclosed macro",
+                start: 0,
+                end: 5,
+            },
+        ]);
+    });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { formatIssues } from "@/messages";
+import { CharacterSchema } from "@/types/v0/Character";
+import { characterData } from "./fixtures";
+
+const base = characterData();
+
+const format = (data: unknown, locale?: "en" | "ko" | "ja") => {
+    const result = CharacterSchema.safeParse(data);
+    if (result.success) throw new Error("Expected a failure");
+    return formatIssues(result.error.issues, data, locale && { locale });
+};
+
+describe("formatIssues", () => {
+    it("names lorebook entries and assets, and uses field descriptions", () => {
+        const data = {
+            ...base,
+            id: 1,
+            prompt: {
+                description: "d",
+                lorebook: {
+                    data: [
+                        {
+                            id: "l1",
+                            name: "Greeting",
+                            content: "c",
+                            condition: [{ type: "regex_match" }],
+                        },
+                    ],
+                },
+            },
+            assets: {
+                assets: [{ name: "a.png", mimeType: "image/png", data: "x" }],
+            },
+        };
+        expect(format(data)).toEqual([
+            {
+                path: "$.id",
+                code: "invalid_type",
+                location: "id",
+                description: "Unique identifier for the character.",
+                message:
+                    "id: Expected a string, but got a number (Unique identifier for the character.)",
+            },
+            {
+                path: "$.prompt.lorebook.data[0].condition[0].regexPattern",
+                code: "invalid_type",
+                location:
+                    'Lorebook entry "Greeting" › condition[0].regexPattern',
+                description: "The regex pattern to match. Scriptable.",
+                message:
+                    'Lorebook entry "Greeting" › condition[0].regexPattern: Required (The regex pattern to match. Scriptable.)',
+            },
+            {
+                path: "$.assets.assets[0].data",
+                code: "invalid_format",
+                location: 'Asset "a.png" › data',
+                description: "The data of the asset.",
+                message:
+                    'Asset "a.png" › data: Must be a valid URL (The data of the asset.)',
+            },
+        ]);
+    });
+
+    it("localizes messages in Korean and Japanese", () => {
+        const data = {
+            ...base,
+            specVersion: 1,
+            prompt: {
+                description: "d",
+                lorebook: {
+                    data: [
+                        {
+                            id: "l1",
+                            name: "인사",
+                            content: "c",
+                            condition: [{ type: "unknown" }],
+                        },
+                    ],
+                },
+            },
+        };
+        expect(format(data, "ko").map((i) => i.message)).toEqual([
+            "specVersion: 0 값이어야 합니다 (The version of the character spec. Used to determine which schema to use for parsing and migration.)",
+            '로어북 항목 "인사" › condition[0].type: 허용된 유형과 일치하지 않습니다',
+        ]);
+        expect(format(data, "ja").map((i) => i.message)).toEqual([
+            "specVersion: 0である必要があります(The version of the character spec. Used to determine which schema to use for parsing and migration.)",
+            "ロアブック項目「인사」 › condition[0].type: 許可された種類のいずれにも一致しません",
+        ]);
+    });
+
+    it("translates refinements and falls back to paths", () => {
+        const data = {
+            ...base,
+            prompt: {
+                description: "d",
+                lorebook: {
+                    data: [
+                        { id: "l1", name: "A", content: "a" },
+                        { id: "l1", name: "B", content: "b" },
+                    ],
+                },
+            },
+        };
+        expect(format(data, "ko")).toMatchObject([
+            {
+                path: "$.prompt.lorebook.data",
+                location: "prompt.lorebook.data",
+                message:
+                    "prompt.lorebook.data: id 값이 중복됩니다 (Contains the actual lorebooks. Duplicated id is not allowed.)",
+            },
+        ]);
+
+        const schema = z.array(z.string().min(2));
+        const result = schema.safeParse(["a"]);
+        expect(
+            formatIssues(result.error?.issues ?? [], ["a"], {
+                schema,
+                locale: "ja",
+            }),
+        ).toEqual([
+            {
+                path: "$[0]",
+                code: "too_small",
+                location: "[0]",
+                message: "[0]: 2文字以上である必要があります",
+            },
+        ]);
+
+        const list = z.array(z.string().min(2)).min(2);
+        const short = list.safeParse(["a"]);
+        expect(
+            formatIssues(short.error?.issues ?? [], ["a"], {
+                schema: list,
+                locale: "ko",
+            }).map((i) => i.message),
+        ).toEqual([
+            "[0]: 2자 이상이어야 합니다",
+            "(최상위): 항목이 2개 이상이어야 합니다",
+        ]);
+    });
+});
@@ -0,0 +1,172 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+    LATEST_SPEC_VERSION,
+    MigrationError,
+    parseAnyCharacter,
+    readSpecVersion,
+} from "@/migration";
+import { characterData } from "./fixtures";
+
+const raw = characterData();
+
+describe("parseAnyCharacter", () => {
+    it("parses the latest version without migration steps", () => {
+        const parsed = parseAnyCharacter(raw);
+        expect(parsed.fromVersion).toBe(LATEST_SPEC_VERSION);
+        expect(parsed.steps).toEqual([]);
+        expect(parsed.character.name).toBe("Aris");
+        // Defaults of the schema are applied
+        expect(parsed.character.metadata.license).toBe("ARR");
+    });
+
+    it("rejects missing, unknown and newer spec versions", () => {
+        expect(() => readSpecVersion({})).toThrow(MigrationError);
+        expect(() => readSpecVersion(null)).toThrow(MigrationError);
+        expect(() => readSpecVersion({ specVersion: "0" })).toThrow(
+            MigrationError,
+        );
+        expect(() => readSpecVersion({ specVersion: 9999 })).toThrow(
+            /newer than the latest/,
+        );
+    });
+
+    it("preserves unknown fields at every level when opted in", () => {
+        const data = {
+            ...raw,
+            futureField: { nested: 1 },
+            prompt: {
+                description: "p",
+                lorebook: {
+                    data: [
+                        {
+                            id: "l1",
+                            name: "entry",
+                            content: "c",
+                            embedding: [0.1, 0.2],
+                        },
+                    ],
+                },
+            },
+            executables: {
+                replaceHooks: {
+                    display: [
+                        {
+                            input: "a",
+                            output: "b",
+                            meta: { type: "string", future: true },
+                        },
+                    ],
+                },
+            },
+            assets: {
+                assets: [
+                    {
+                        name: "a.png",
+                        mimeType: "image/png",
+                        data: "https://example.com/a.png",
+                        width: 512,
+                    },
+                ],
+            },
+        };
+
+        const stripped = parseAnyCharacter(data).character;
+        expect(stripped).not.toHaveProperty("futureField");
+
+        const { character, report } = parseAnyCharacter(data, {
+            preserveUnknown: true,
+        });
+        expect(character).toHaveProperty("futureField", { nested: 1 });
+        expect(character.prompt.lorebook.data[0]).toHaveProperty(
+            "embedding",
+            [0.1, 0.2],
+        );
+        expect(character.executables.replaceHooks.display[0]?.meta).toEqual({
+            type: "string",
+            caseSensitive: true,
+            isInputPatternScripted: false,
+            isOutputScripted: false,
+            priority: 0,
+            future: true,
+        });
+        expect(character.assets.assets[0]).toHaveProperty("width", 512);
+        expect(report.isLossless).toBe(true);
+    });
+
+    it("validates the input with the schema of its version", () => {
+        expect(() => parseAnyCharacter({ ...raw, name: 1 })).toThrow();
+    });
+
+    describe("with a registered step", () => {
+        afterEach(() => {
+            vi.doUnmock("@/index");
+            vi.resetModules();
+        });
+
+        it("walks the steps up to the latest version", async () => {
+            // Registers a v1 schema, since only v0 exists yet
+            vi.resetModules();
+            vi.doMock("@/index", async (importOriginal) => {
+                const original =
+                    await importOriginal<typeof import("@/index")>();
+                const { z } = await import("zod");
+                return {
+                    ...original,
+                    characterMap: {
+                        ...original.characterMap,
+                        1: original.characterMap[0].extend({
+                            specVersion: z.literal(1),
+                            nickname: z.string().default(""),
+                        }),
+                    },
+                };
+            });
+            const migration = await import("@/migration");
+            expect(migration.LATEST_SPEC_VERSION).toBe(1);
+            (migration.migrationSteps as unknown[]).push({
+                from: 0,
+                to: 1,
+                migrate: (
+                    character: Record<string, unknown>,
+                    report: import("@/report").MigrationReport,
+                ) => {
+                    report.info("$.nickname", "defaulted", "Added nickname");
+                    return { ...character, specVersion: 1, nickname: "A" };
+                },
+            });
+
+            const parsed = migration.parseAnyCharacter(raw);
+            expect(parsed.fromVersion).toBe(0);
+            expect(parsed.character).toHaveProperty("specVersion", 1);
+            expect(parsed.character).toHaveProperty("nickname", "A");
+            const [step] = parsed.steps;
+            if (!step) throw new Error("missing step");
+            expect(step).toMatchObject({ from: 0, to: 1 });
+            expect(step.input).toHaveProperty("specVersion", 0);
+            expect(step.output).toBe(parsed.character);
+            expect(step.report.entries).toHaveLength(1);
+            expect(parsed.report.entries).toEqual(
+                expect.arrayContaining(step.report.entries),
+            );
+        });
+
+        it("throws if a step is missing", async () => {
+            vi.resetModules();
+            vi.doMock("@/index", async (importOriginal) => {
+                const original =
+                    await importOriginal<typeof import("@/index")>();
+                return {
+                    ...original,
+                    characterMap: {
+                        ...original.characterMap,
+                        1: original.characterMap[0],
+                    },
+                };
+            });
+            const migration = await import("@/migration");
+            expect(() => migration.parseAnyCharacter(raw)).toThrow(
+                /No migration step registered from v0/,
+            );
+        });
+    });
+});
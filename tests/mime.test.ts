@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import {
+    checkMimeTypes,
+    correctMimeTypes,
+    isMimeTypeCompatible,
+    refineMimeTypes,
+    SHARE_MIME_TYPES,
+    sniffMimeType,
+} from "@/mime";
+import { MigrationReport } from "@/report";
+import { CharacterSchema } from "@/types/v0/Character";
+import { MessageSchema } from "@/types/v0/Character/Message";
+import { characterData } from "./fixtures";
+
+const bytes = (...parts: (string | number[])[]) =>
+    new Uint8Array(
+        parts.flatMap((part) =>
+            typeof part === "string"
+                ? [...part].map((c) => c.charCodeAt(0))
+                : part,
+        ),
+    );
+
+const PNG = bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG = bytes([0xff, 0xd8, 0xff, 0xe0]);
+
+const character = (assets: unknown[]) => characterData({ assets: { assets } });
+
+describe("sniffMimeType", () => {
+    it("detects images, audio and video", () => {
+        expect(sniffMimeType(PNG)).toBe("image/png");
+        expect(sniffMimeType(JPEG)).toBe("image/jpeg");
+        expect(sniffMimeType(bytes("GIF89a"))).toBe("image/gif");
+        expect(sniffMimeType(bytes("RIFF", [0, 0, 0, 0], "WEBPVP8 "))).toBe(
+            "image/webp",
+        );
+        expect(sniffMimeType(bytes("RIFF", [0, 0, 0, 0], "WAVEfmt "))).toBe(
+            "audio/wav",
+        );
+        expect(sniffMimeType(bytes([0, 0, 0, 28], "ftypavif"))).toBe(
+            "image/avif",
+        );
+        expect(sniffMimeType(bytes([0, 0, 0, 28], "ftypisom"))).toBe(
+            "video/mp4",
+        );
+        expect(sniffMimeType(bytes([0, 0, 0, 28], "ftypM4A "))).toBe(
+            "audio/mp4",
+        );
+        expect(
+            sniffMimeType(bytes([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42], "webm")),
+        ).toBe("video/webm");
+        expect(sniffMimeType(bytes("OggS", [0, 2]))).toBe("audio/ogg");
+        expect(sniffMimeType(bytes("fLaC"))).toBe("audio/flac");
+        expect(sniffMimeType(bytes("ID3", [4, 0]))).toBe("audio/mpeg");
+        expect(sniffMimeType(bytes([0xff, 0xfb, 0x90]))).toBe("audio/mpeg");
+        expect(sniffMimeType(bytes([0xff, 0xf1, 0x50]))).toBe("audio/aac");
+        expect(sniffMimeType(bytes("plain text"))).toBeNull();
+        expect(sniffMimeType(new Uint8Array())).toBeNull();
+    });
+
+    it("considers aliases and ambiguous containers compatible", () => {
+        expect(isMimeTypeCompatible("image/JPG", "image/jpeg")).toBe(true);
+        expect(isMimeTypeCompatible("audio/mp4", "video/mp4")).toBe(true);
+        expect(isMimeTypeCompatible("audio/webm", "video/webm")).toBe(true);
+        expect(isMimeTypeCompatible("image/png; x=1", "image/png")).toBe(true);
+        expect(isMimeTypeCompatible("image/png", "image/jpeg")).toBe(false);
+    });
+});
+
+describe("checkMimeTypes", () => {
+    it("reports mismatches and types outside of the allowlist", () => {
+        const data = CharacterSchema.parse(
+            character([
+                { name: "a.png", mimeType: "image/png", data: PNG },
+                { name: "b.png", mimeType: "image/png", data: JPEG },
+                {
+                    name: "c.svg",
+                    mimeType: "image/svg+xml",
+                    data: "https://example.com/c.svg",
+                },
+            ]),
+        );
+        expect(checkMimeTypes(data, { allowlist: SHARE_MIME_TYPES })).toEqual([
+            {
+                path: "$.assets.assets[1].mimeType",
+                kind: "mismatch",
+                declared: "image/png",
+                detected: "image/jpeg",
+                message: "Declared as image/png, but the data is image/jpeg",
+            },
+            {
+                path: "$.assets.assets[2].mimeType",
+                kind: "not-allowed",
+                declared: "image/svg+xml",
+                detected: null,
+                message: "image/svg+xml is not allowed",
+            },
+        ]);
+        expect(checkMimeTypes(data, { mismatch: "correct" })).toEqual([]);
+    });
+
+    it("checks file messages and inlays", () => {
+        const message = MessageSchema.parse({
+            id: "m1",
+            chatId: "c1",
+            role: "user",
+            content: { type: "file", mimeType: "video/mp4", data: PNG },
+            inlays: [{ name: "i", mimeType: "image/jpeg", data: JPEG }],
+        });
+        expect(checkMimeTypes(message).map((i) => i.path)).toEqual([
+            "$.content.mimeType",
+        ]);
+    });
+});
+
+describe("correctMimeTypes", () => {
+    it("replaces mismatched types without modifying the input", () => {
+        const data = CharacterSchema.parse(
+            character([
+                { name: "a.png", mimeType: "image/png", data: PNG },
+                { name: "b.png", mimeType: "image/png", data: JPEG },
+            ]),
+        );
+        const report = new MigrationReport();
+        const corrected = correctMimeTypes(data, report);
+        expect(corrected.assets.assets.map((a) => a.mimeType)).toEqual([
+            "image/png",
+            "image/jpeg",
+        ]);
+        expect(corrected.assets.assets[0]).toBe(data.assets.assets[0]);
+        expect(data.assets.assets[1]?.mimeType).toBe("image/png");
+        expect(report.entries).toEqual([
+            {
+                path: "$.assets.assets[1].mimeType",
+                severity: "info",
+                kind: "coerced",
+                message: "MIME type was corrected to match the data",
+                before: "image/png",
+                after: "image/jpeg",
+            },
+        ]);
+    });
+});
+
+describe("refineMimeTypes", () => {
+    it("rejects or corrects mismatches", () => {
+        const input = character([
+            { name: "b.png", mimeType: "image/png", data: JPEG },
+        ]);
+        const rejecting = refineMimeTypes(CharacterSchema);
+        const result = rejecting.safeParse(input);
+        expect(result.error?.issues).toMatchObject([
+            {
+                code: "custom",
+                path: ["assets", "assets", 0, "mimeType"],
+                params: { kind: "mismatch" },
+            },
+        ]);
+
+        const correcting = refineMimeTypes(CharacterSchema, {
+            mismatch: "correct",
+            allowlist: ["image/jpeg"],
+        });
+        expect(correcting.parse(input).assets.assets[0]?.mimeType).toBe(
+            "image/jpeg",
+        );
+    });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { importCharacterCard } from "@/card";
+import { detectFormat } from "@/detect";
+import {
+    embedCharacterInPNG,
+    extractCharacterFromPNG,
+    PNGError,
+    readPNGChunks,
+    readPNGText,
+    writePNGChunks,
+    writePNGText,
+} from "@/png";
+import { importCharacter } from "@/transport";
+import { fromBase64, toBase64 } from "@/utils";
+import { createCharacter } from "./fixtures";
+
+// Transparent 1x1 PNG
+const pixel = fromBase64(
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAAC0lEQVR42mNgAAIAAAUAAen63NgAAAAASUVORK5CYII=",
+);
+
+const avatar = writePNGText(pixel, "Comment", "avatar");
+
+const character = createCharacter({
+    avatarUrl: "aris.png",
+    assets: {
+        assets: [{ name: "aris.png", mimeType: "image/png", data: avatar }],
+    },
+});
+
+describe("PNG chunks", () => {
+    it("round-trips chunks and verifies CRC", () => {
+        const chunks = readPNGChunks(pixel);
+        expect(chunks.map((c) => c.type)).toEqual(["IHDR", "IDAT", "IEND"]);
+        expect(writePNGChunks(chunks)).toEqual(pixel);
+
+        const broken = pixel.slice();
+        broken[20] = (broken[20] ?? 0) ^ 0xff;
+        expect(() => readPNGChunks(broken)).toThrow(PNGError);
+        expect(() => readPNGChunks(new Uint8Array([1, 2, 3]))).toThrow(
+            PNGError,
+        );
+    });
+
+    it("replaces text chunks with the same keyword", async () => {
+        const once = writePNGText(pixel, "chara", "a");
+        const twice = writePNGText(once, "chara", "b");
+        expect(readPNGChunks(twice).map((c) => c.type)).toEqual([
+            "IHDR",
+            "IDAT",
+            "tEXt",
+            "IEND",
+        ]);
+        expect(await readPNGText(twice)).toEqual(new Map([["chara", "b"]]));
+    });
+
+    it("wraps inflate failures of compressed iTXt chunks", async () => {
+        const text = new TextEncoder().encode("Comment\0\x01\0\0\0broken");
+        const chunks = readPNGChunks(pixel);
+        chunks.splice(2, 0, { type: "iTXt", data: text });
+        const png = writePNGChunks(chunks);
+        await expect(readPNGText(png)).rejects.toThrow(PNGError);
+        expect(await readPNGText(png, ["chara"])).toEqual(new Map());
+    });
+
+    it("reads uncompressed iTXt chunks", async () => {
+        const text = new TextEncoder().encode("ccv3\0\0\0ko\0키\0안녕");
+        const chunks = readPNGChunks(pixel);
+        chunks.splice(2, 0, { type: "iTXt", data: text });
+        expect(await readPNGText(writePNGChunks(chunks))).toEqual(
+            new Map([["ccv3", "안녕"]]),
+        );
+    });
+});
+
+describe("Characters in PNG", () => {
+    it("embeds the transport payload into the avatar", async () => {
+        const png = await embedCharacterInPNG(character);
+        const texts = await readPNGText(png);
+        expect(texts.get("Comment")).toBe("avatar");
+        expect(detectFormat(png)).toEqual({
+            format: "png",
+            embedded: "arisutalk",
+            parser: "extractCharacterFromPNG",
+        });
+
+        const extracted = await extractCharacterFromPNG(png);
+        expect(extracted?.format).toBe("arisutalk");
+        if (extracted?.format !== "arisutalk") return;
+        expect(await importCharacter(extracted.bytes)).toEqual(character);
+    });
+
+    it("embeds a Character Card V3 with the PNG as the main icon", async () => {
+        const png = await embedCharacterInPNG(character, { format: "ccv3" });
+        const extracted = await extractCharacterFromPNG(png);
+        expect(extracted?.format).toBe("ccv3");
+        if (extracted?.format !== "ccv3") return;
+
+        const { character: imported, report } = importCharacterCard(
+            extracted.card,
+            { image: extracted.image },
+        );
+        expect(imported.name).toBe("Aris");
+        expect(imported.avatarUrl).toBe("main.png");
+        expect(imported.assets.assets[0]?.data).toEqual(png);
+        expect(report.filter("lossy")).toEqual([]);
+    });
+
+    it("uses a fallback image without a PNG avatar", async () => {
+        const png = await embedCharacterInPNG({
+            ...character,
+            avatarUrl: undefined,
+        } as typeof character);
+        expect(readPNGChunks(png)[0]?.type).toBe("IHDR");
+        expect((await extractCharacterFromPNG(png))?.format).toBe("arisutalk");
+    });
+
+    it("extracts Character Card V2 from the chara chunk", async () => {
+        const card = {
+            spec: "chara_card_v2",
+            spec_version: "2.0",
+            data: { name: "Yuzu" },
+        };
+        const png = writePNGText(
+            pixel,
+            "chara",
+            toBase64(new TextEncoder().encode(JSON.stringify(card))),
+        );
+        const extracted = await extractCharacterFromPNG(png);
+        expect(extracted).toEqual({ format: "ccv2", card, image: png });
+        expect(await extractCharacterFromPNG(pixel)).toBeNull();
+    });
+
+    it("ignores unrelated text chunks", async () => {
+        const card = { spec: "chara_card_v2", data: { name: "Yuzu" } };
+        const chunks = readPNGChunks(
+            writePNGText(
+                pixel,
+                "chara",
+                toBase64(new TextEncoder().encode(JSON.stringify(card))),
+            ),
+        );
+        chunks.splice(2, 0, {
+            type: "iTXt",
+            data: new TextEncoder().encode("Comment\0\x01\0\0\0broken"),
+        });
+        const extracted = await extractCharacterFromPNG(writePNGChunks(chunks));
+        expect(extracted?.format).toBe("ccv2");
+    });
+});
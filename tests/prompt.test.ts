@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import { buildPrompt } from "@/prompt";
+import { ChatSchema, MessageSchema } from "@/types/v0/Character";
+import { createCharacter } from "./fixtures";
+
+const character = createCharacter({
+    prompt: {
+        description: "You are {{char}}, talking with {{user}}.",
+        authorsNote: "Stay in character.",
+        lorebook: {
+            data: [
+                {
+                    id: "l1",
+                    name: "Yuzu",
+                    content: "Yuzu is {{char}}'s friend.",
+                    condition: [{ type: "plain_text_match", text: "yuzu" }],
+                },
+            ],
+        },
+    },
+    executables: {
+        replaceHooks: {
+            request: [
+                {
+                    input: "Sensei",
+                    meta: { type: "string" },
+                    output: "Teacher",
+                },
+            ],
+        },
+    },
+});
+
+const chat = ChatSchema.parse({
+    id: "chat1",
+    characterId: "c1",
+    lorebook: [
+        {
+            id: "l2",
+            name: "Momoi",
+            content: "Momoi is Midori's sister.",
+            condition: [{ type: "regex_match", regexPattern: "{{char}}" }],
+        },
+    ],
+});
+
+const message = (id: string, role: string, data: string, chatId = "chat1") =>
+    MessageSchema.parse({
+        id,
+        chatId,
+        role,
+        content: { type: "text", data },
+        timestamp: 0,
+    });
+
+const messages = [
+    message("m1", "user", "Hi Aris, where is Yuzu?"),
+    message("m2", "assistant", "In the club room, Sensei."),
+    message("other", "user", "Yuzu!", "chat2"),
+    MessageSchema.parse({
+        id: "file",
+        chatId: "chat1",
+        role: "user",
+        content: {
+            type: "file",
+            data: new Uint8Array([1]),
+            mimeType: "image/png",
+        },
+    }),
+    message("m3", "user", "Thanks!"),
+];
+
+describe("buildPrompt", () => {
+    it("assembles the system prompt, lorebook, history and authors note", () => {
+        const result = buildPrompt({
+            character,
+            chat,
+            messages,
+            options: { user: "Sensei" },
+        });
+        expect(result.messages).toEqual([
+            {
+                role: "system",
+                content:
+                    "You are Aris, talking with Teacher.\n\nYuzu is Aris's friend.\n\nMomoi is Midori's sister.",
+            },
+            { role: "user", content: "Hi Aris, where is Yuzu?" },
+            { role: "assistant", content: "In the club room, Teacher." },
+            { role: "system", content: "Stay in character." },
+            { role: "user", content: "Thanks!" },
+        ]);
+        expect(result.lorebook.entries.map((e) => e.entry.id)).toEqual([
+            "l1",
+            "l2",
+        ]);
+        expect(result.truncated).toBe(0);
+    });
+
+    it("scans only recent messages for the lorebook", () => {
+        const result = buildPrompt({
+            character,
+            chat,
+            messages,
+            options: { scanDepth: 1 },
+        });
+        expect(result.lorebook.entries).toEqual([]);
+        expect(result.messages[0]?.content).toBe(
+            "You are Aris, talking with .",
+        );
+    });
+
+    it("drops the oldest history to fit the token budget", () => {
+        const tokenizer = {
+            name: "chars",
+            count: (text: string) => text.length,
+        };
+        const full = buildPrompt({
+            character,
+            chat,
+            messages,
+            options: { tokenizer },
+        });
+        const result = buildPrompt({
+            character,
+            chat,
+            messages,
+            options: { tokenizer, maxTokens: full.tokens - 1 },
+        });
+        expect(result.truncated).toBe(1);
+        expect(result.messages.map((m) => m.role)).toEqual([
+            "system",
+            "assistant",
+            "system",
+            "user",
+        ]);
+        expect(result.tokens).toBe(
+            full.tokens - "Hi Aris, where is Yuzu?".length,
+        );
+    });
+
+    it("skips broken lorebook entries instead of failing", () => {
+        const broken = ChatSchema.parse({
+            id: "chat1",
+            characterId: "c1",
+            lorebook: [
+                {
+                    id: "disabled",
+                    name: "Disabled",
+                    content: "{{bad",
+                    condition: [{ type: "always" }],
+                    enabled: false,
+                },
+                {
+                    id: "unmatched",
+                    name: "Unmatched",
+                    content: "{{bad",
+                    condition: [{ type: "plain_text_match", text: "Hina" }],
+                },
+                {
+                    id: "condition",
+                    name: "Condition",
+                    content: "Never shown.",
+                    condition: [{ type: "plain_text_match", text: "{{bad" }],
+                },
+            ],
+        });
+        const result = buildPrompt({ character, chat: broken, messages });
+        expect(result.lorebook.entries.map((e) => e.entry.id)).toEqual(["l1"]);
+        expect(result.lorebook.failed.map((f) => f.entry.id)).toEqual([
+            "condition",
+        ]);
+        expect(result.messages[0]?.content).toContain("Yuzu is Aris's friend.");
+    });
+});
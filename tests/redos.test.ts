@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { analyzeRegex, findReDoS, refineReDoS } from "@/redos";
+import { CharacterSchema } from "@/types/v0/Character";
+import { characterData } from "./fixtures";
+
+describe("analyzeRegex", () => {
+    it.each([
+        ["(a+)+$", ""],
+        ["^(a*)*b", ""],
+        ["(\\w+\\s?)*$", ""],
+        ["(\\w|\\d)+$", ""],
+        ["(a|aa)+$", ""],
+        ["(a|a?)+$", ""],
+        ["(?:x+x+)+y", ""],
+        ["(A|a)+$", "i"],
+        ["(?=(a+)+)b", ""],
+    ])("flags %s as exponential", (pattern, flags) => {
+        expect(analyzeRegex(pattern, flags).risk).toBe("exponential");
+    });
+
+    it.each([
+        ["\\d+\\d+$", ""],
+        [".*,.*=", ""],
+        ["\\w+\\s*\\w+!", ""],
+        ["a{1,100}a+b", ""],
+    ])("flags %s as polynomial", (pattern, flags) => {
+        expect(analyzeRegex(pattern, flags).risk).toBe("polynomial");
+    });
+
+    it.each([
+        ["\\d+\\.\\d+", ""],
+        ["(a+b)+", ""],
+        ["(\\w+\\s)*", ""],
+        ["(a|b)+", ""],
+        ["(A|a)+", ""],
+        ["[^,]*,[^,]*", ""],
+        ["\\x+\\p+\\u{2}", ""],
+        ["\\p{L}+,\\d+", "u"],
+        ["^\\s*(yuzu|momoi)\\s*$", "i"],
+        ["{{char}}", ""],
+    ])("treats %s as safe", (pattern, flags) => {
+        expect(analyzeRegex(pattern, flags)).toEqual({
+            risk: "safe",
+            findings: [],
+        });
+    });
+
+    it("reports the offset of the vulnerable part", () => {
+        expect(analyzeRegex("ab(c+)+").findings).toEqual([
+            {
+                risk: "exponential",
+                message:
+                    "Nested quantifiers can match the same text in many ways",
+                start: 3,
+            },
+        ]);
+    });
+
+    it("throws on invalid regexes", () => {
+        expect(() => analyzeRegex("(")).toThrow(SyntaxError);
+    });
+});
+
+describe("character checks", () => {
+    const data = characterData({
+        prompt: {
+            description: "d",
+            lorebook: {
+                data: [
+                    {
+                        id: "l1",
+                        name: "entry",
+                        content: "c",
+                        condition: [
+                            { type: "regex_match", regexPattern: "(a+)+$" },
+                        ],
+                    },
+                ],
+            },
+        },
+        executables: {
+            replaceHooks: {
+                display: [
+                    {
+                        input: "\\s+\\s+x",
+                        meta: { type: "regex", flag: "g" },
+                        output: "",
+                    },
+                    {
+                        input: "(a+)+",
+                        meta: {
+                            type: "regex",
+                            flag: "g",
+                            isInputPatternScripted: true,
+                        },
+                        output: "",
+                    },
+                ],
+            },
+        },
+    });
+
+    it("finds risky patterns with paths", () => {
+        const character = CharacterSchema.parse(data);
+        expect(
+            findReDoS(character).map(({ path, risk }) => [path, risk]),
+        ).toEqual([
+            [
+                "$.prompt.lorebook.data[0].condition[0].regexPattern",
+                "exponential",
+            ],
+            ["$.executables.replaceHooks.display[0].input", "polynomial"],
+        ]);
+        expect(findReDoS(character, "polynomial")).toHaveLength(1);
+    });
+
+    it("refines the schema", () => {
+        expect(CharacterSchema.safeParse(data).success).toBe(true);
+        const result = refineReDoS(CharacterSchema, "polynomial").safeParse(
+            data,
+        );
+        expect(result.error?.issues).toMatchObject([
+            {
+                code: "custom",
+                path: [
+                    "prompt",
+                    "lorebook",
+                    "data",
+                    0,
+                    "condition",
+                    0,
+                    "regexPattern",
+                ],
+                params: { risk: "exponential" },
+            },
+        ]);
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+    applyReplaceHooks,
+    compileReplaceHook,
+    ReplaceHookError,
+} from "@/replace";
+import { ReplaceHookSchema } from "@/types/v0/Executables/ReplaceHook";
+
+const hooks = ReplaceHookSchema.parse({
+    display: [
+        {
+            input: "sensei",
+            meta: { type: "string", caseSensitive: false },
+            output: "$& ($1)",
+        },
+        {
+            input: "(?<who>\\w+) says: (.+)",
+            meta: { type: "regex", flag: "g", priority: 10 },
+            output: '$<who>: "$2"',
+        },
+        {
+            input: "Aris",
+            meta: { type: "string", priority: -1 },
+            output: "Alice",
+        },
+        {
+            input: "{{char}}",
+            meta: { type: "string", isInputPatternScripted: true },
+            output: "",
+        },
+    ],
+    output: [
+        { input: "a", meta: { type: "regex", flag: "" }, output: "b" },
+        { input: "a", meta: { type: "regex", flag: "gi" }, output: "c" },
+    ],
+});
+
+describe("applyReplaceHooks", () => {
+    it("applies hooks by priority with capture groups", () => {
+        const result = applyReplaceHooks(
+            "display",
+            "Aris says: hi SENSEI, Sensei!",
+            hooks,
+        );
+        expect(result.text).toBe('Alice: "hi $& ($1), $& ($1)!"');
+        expect(
+            result.trace.map(({ index, count }) => ({ index, count })),
+        ).toEqual([
+            { index: 1, count: 1 },
+            { index: 0, count: 2 },
+            { index: 2, count: 1 },
+        ]);
+        expect(result.trace[0]?.text).toBe('Aris: "hi SENSEI, Sensei!"');
+        expect(result.skipped).toEqual([3]);
+    });
+
+    it("respects regex flags", () => {
+        const result = applyReplaceHooks("output", "aAa", hooks);
+        expect(result.text).toBe("bcc");
+        expect(result.trace.map((t) => t.count)).toEqual([1, 2]);
+    });
+
+    it("returns the text as is without matches", () => {
+        expect(applyReplaceHooks("input", "text", hooks)).toEqual({
+            text: "text",
+            trace: [],
+            skipped: [],
+        });
+    });
+
+    it("ignores hooks with an empty pattern", () => {
+        const empty = ReplaceHookSchema.parse({
+            input: [
+                { input: "", meta: { type: "regex", flag: "g" }, output: "-" },
+                { input: "", meta: { type: "string" }, output: "-" },
+            ],
+        });
+        expect(applyReplaceHooks("input", "abc", empty)).toEqual({
+            text: "abc",
+            trace: [],
+            skipped: [],
+        });
+        const [hook] = empty.input;
+        if (!hook) throw new Error("Missing hook");
+        expect(() => compileReplaceHook(hook)).toThrow(ReplaceHookError);
+    });
+
+    it("throws on invalid patterns", () => {
+        const invalid = ReplaceHookSchema.parse({
+            request: [
+                { input: "(", meta: { type: "regex", flag: "g" }, output: "" },
+            ],
+        });
+        expect(() => applyReplaceHooks("request", "", invalid)).toThrow(
+            ReplaceHookError,
+        );
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { parseAnyCharacter } from "@/migration";
+import { MigrationReport, reportParseChanges, toJSONPath } from "@/report";
+import { exportCharacter, importCharacter } from "@/transport";
+import { characterData } from "./fixtures";
+
+const raw = characterData({
+    prompt: {
+        description: "d",
+        lorebook: {
+            data: [
+                {
+                    id: "l1",
+                    name: "entry",
+                    content: "c",
+                    fromNewerClient: true,
+                },
+            ],
+        },
+    },
+});
+
+describe("toJSONPath", () => {
+    it("formats identifiers, indexes and other keys", () => {
+        expect(toJSONPath(["prompt", "lorebook", "data", 3])).toBe(
+            "$.prompt.lorebook.data[3]",
+        );
+        expect(toJSONPath(["a-b"], "$.x")).toBe('$.x["a-b"]');
+    });
+});
+
+describe("MigrationReport", () => {
+    it("tracks the highest severity", () => {
+        const report = new MigrationReport();
+        expect(report.severity).toBeNull();
+        expect(report.isLossless).toBe(true);
+
+        report.info("$.a", "defaulted", "a");
+        expect(report.severity).toBe("info");
+        report.lossy("$.b", "dropped", "b");
+        report.info("$.c", "coerced", "c");
+        expect(report.severity).toBe("lossy");
+        expect(report.isLossless).toBe(false);
+        expect(report.filter("lossy").map((e) => e.path)).toEqual(["$.b"]);
+    });
+
+    it("reports stripped and defaulted fields of a schema parse", () => {
+        const report = new MigrationReport();
+        reportParseChanges(
+            { keep: 1, unknown: 2, list: [1, 2] },
+            { keep: 1, added: 3, list: [1] },
+            report,
+        );
+        expect(report.entries).toEqual([
+            expect.objectContaining({
+                path: "$.unknown",
+                severity: "lossy",
+                kind: "dropped",
+            }),
+            expect.objectContaining({
+                path: "$.list[1]",
+                severity: "lossy",
+                kind: "dropped",
+            }),
+            expect.objectContaining({
+                path: "$.added",
+                severity: "info",
+                kind: "defaulted",
+            }),
+        ]);
+    });
+});
+
+describe("Migration reports", () => {
+    it("parseAnyCharacter reports unknown fields dropped by the schema", () => {
+        const { report } = parseAnyCharacter(raw);
+        expect(report.filter("lossy")).toEqual([
+            expect.objectContaining({
+                path: "$.prompt.lorebook.data[0].fromNewerClient",
+                kind: "dropped",
+            }),
+        ]);
+        expect(
+            report.entries.some(
+                (e) =>
+                    e.path === "$.metadata.license" && e.kind === "defaulted",
+            ),
+        ).toBe(true);
+    });
+
+    it("importCharacter adds changes to the given report", async () => {
+        const bytes = await exportCharacter(parseAnyCharacter(raw).character);
+        const report = new MigrationReport();
+        await importCharacter(bytes, { report });
+        expect(report.isLossless).toBe(true);
+    });
+});
@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+import { applyScriptedReplaceHooks } from "@/replace";
+import { resolveScriptLimits, type ScriptEvaluator } from "@/script";
+import { ReplaceHookSchema } from "@/types/v0/Executables/ReplaceHook";
+import { createWorkerEvaluator } from "@/worker";
+
+const runtimeSetting = { timeout: 1 };
+
+describe("resolveScriptLimits", () => {
+    it("caps the character settings at the host config", () => {
+        expect(
+            resolveScriptLimits(
+                { timeout: 3, mem: 128 },
+                { timeout: 2, mem: 64 },
+            ),
+        ).toEqual({ timeout: 2, mem: 64 });
+        expect(
+            resolveScriptLimits({ timeout: 1 }, { timeout: 2, mem: 64 }),
+        ).toEqual({ timeout: 1, mem: 64 });
+    });
+});
+
+describe("createWorkerEvaluator", () => {
+    const evaluator = createWorkerEvaluator({ timeout: 5, mem: 32 });
+
+    it("returns the value with variables", async () => {
+        expect(
+            await evaluator.evaluate("a + b.length", {
+                variables: { a: 1, b: [1, 2] },
+                runtimeSetting,
+            }),
+        ).toEqual({ status: "ok", value: 3 });
+        expect(
+            await evaluator.evaluate("Promise.resolve(typeof require)", {
+                variables: {},
+                runtimeSetting,
+            }),
+        ).toEqual({ status: "ok", value: "undefined" });
+    });
+
+    it("returns errors", async () => {
+        expect(
+            await evaluator.evaluate("throw new TypeError('nope')", {
+                variables: {},
+                runtimeSetting,
+            }),
+        ).toEqual({
+            status: "error",
+            error: { name: "TypeError", message: "nope" },
+        });
+        const result = await evaluator.evaluate("() => 1", {
+            variables: {},
+            runtimeSetting,
+        });
+        expect(result.status).toBe("error");
+    });
+
+    it("evaluates each set of variables in one worker", async () => {
+        expect(
+            await evaluator.evaluateEach?.("n * 2", {
+                variables: [{ n: 1 }, { n: 2 }, { n: 3 }],
+                runtimeSetting,
+            }),
+        ).toEqual([
+            { status: "ok", value: 2 },
+            { status: "ok", value: 4 },
+            { status: "ok", value: 6 },
+        ]);
+        expect(
+            await evaluator.evaluateEach?.(
+                "if (n > 1) throw new Error('big'); n",
+                {
+                    variables: [{ n: 1 }, { n: 2 }, { n: 3 }],
+                    runtimeSetting,
+                },
+            ),
+        ).toEqual([
+            { status: "ok", value: 1 },
+            { status: "error", error: { name: "Error", message: "big" } },
+        ]);
+    });
+
+    it("terminates on timeout", async () => {
+        expect(
+            await evaluator.evaluate("while (true) {}", {
+                variables: {},
+                runtimeSetting,
+            }),
+        ).toEqual({ status: "timeout", timeout: 1 });
+        expect(
+            await createWorkerEvaluator({ timeout: 1, mem: 32 }).evaluate(
+                "(async () => { for (;;) await 0; })()",
+                { variables: {}, runtimeSetting: { timeout: 3 } },
+            ),
+        ).toEqual({ status: "timeout", timeout: 1 });
+    });
+});
+
+describe("applyScriptedReplaceHooks", () => {
+    // Evaluates the code as a function body with the variables, in this realm.
+    const evaluator: ScriptEvaluator = {
+        async evaluate(code, { variables }) {
+            try {
+                const fn = new Function(...Object.keys(variables), code);
+                return { status: "ok", value: fn(...Object.values(variables)) };
+            } catch (e) {
+                const error = e as Error;
+                return {
+                    status: "error",
+                    error: { name: error.name, message: error.message },
+                };
+            }
+        },
+    };
+
+    const hooks = ReplaceHookSchema.parse({
+        output: [
+            {
+                input: "return user",
+                meta: { type: "string", isInputPatternScripted: true },
+                output: "{{user}}",
+            },
+            {
+                input: "(\\d+)",
+                meta: { type: "regex", flag: "g", isOutputScripted: true },
+                output: "return String(Number(groups[0]) * 2)",
+            },
+            {
+                input: "x",
+                meta: { type: "string", isOutputScripted: true },
+                output: "throw new Error('fail')",
+            },
+        ],
+    });
+
+    it("evaluates scripted inputs and outputs", async () => {
+        const result = await applyScriptedReplaceHooks(
+            "output",
+            "Sensei has 2 apples and 10 x",
+            hooks,
+            { evaluator, runtimeSetting, variables: { user: "Sensei" } },
+        );
+        expect(result.text).toBe("{{user}} has 4 apples and 20 x");
+        expect(result.trace.map((t) => [t.index, t.count])).toEqual([
+            [0, 1],
+            [1, 2],
+        ]);
+        expect(result.failures).toEqual([
+            {
+                index: 2,
+                hook: hooks.output[2],
+                result: {
+                    status: "error",
+                    error: { name: "Error", message: "fail" },
+                },
+            },
+        ]);
+    });
+
+    it("evaluates the outputs of all matches together if supported", async () => {
+        const calls: number[] = [];
+        const batching: ScriptEvaluator = {
+            ...evaluator,
+            async evaluateEach(code, request) {
+                calls.push(request.variables.length);
+                return Promise.all(
+                    request.variables.map((variables) =>
+                        evaluator.evaluate(code, {
+                            variables,
+                            runtimeSetting: request.runtimeSetting,
+                        }),
+                    ),
+                );
+            },
+        };
+        const result = await applyScriptedReplaceHooks(
+            "output",
+            "1 2 3",
+            hooks,
+            { evaluator: batching, runtimeSetting },
+        );
+        expect(result.text).toBe("2 4 6");
+        expect(calls).toEqual([3]);
+    });
+
+    it("records a failure if the evaluator returns too few results", async () => {
+        const short: ScriptEvaluator = {
+            ...evaluator,
+            async evaluateEach() {
+                return [{ status: "ok", value: "9" }];
+            },
+        };
+        const result = await applyScriptedReplaceHooks(
+            "output",
+            "1 2 3",
+            hooks,
+            {
+                evaluator: short,
+                runtimeSetting,
+                variables: { user: "Sensei" },
+            },
+        );
+        expect(result.text).toBe("1 2 3");
+        expect(result.failures).toEqual([
+            {
+                index: 1,
+                hook: hooks.output[1],
+                result: {
+                    status: "error",
+                    error: {
+                        name: "ReplaceHookError",
+                        message: "Evaluator returned 1 results for 3 matches",
+                    },
+                },
+            },
+        ]);
+    });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+    createHuggingFaceTokenizer,
+    createTiktokenTokenizer,
+    heuristicTokenizer,
+    TokenizerError,
+} from "@/tokenizer";
+
+describe("heuristicTokenizer", () => {
+    it("counts 4 characters or 1 CJK character per token", () => {
+        expect(heuristicTokenizer.count("")).toBe(0);
+        expect(heuristicTokenizer.count("Hello, world")).toBe(3);
+        expect(heuristicTokenizer.count("안녕 Aris")).toBe(4);
+        expect(heuristicTokenizer.encode).toBeUndefined();
+    });
+});
+
+describe("createTiktokenTokenizer", () => {
+    const file = [
+        ["a", 0],
+        ["b", 1],
+        ["c", 2],
+        [" ", 3],
+        ["ab", 4],
+        [" ab", 5],
+    ]
+        .map(([token, rank]) => `${btoa(String(token))} ${rank}`)
+        .join("\n");
+
+    it("encodes with merge ranks and special tokens", () => {
+        const tokenizer = createTiktokenTokenizer(file, {
+            name: "tiny",
+            specialTokens: { "<|end|>": 100 },
+        });
+        expect(tokenizer.name).toBe("tiny");
+        expect(tokenizer.encode?.("ab ab")).toEqual([4, 5]);
+        expect(tokenizer.encode?.("abc<|end|>c")).toEqual([4, 2, 100, 2]);
+        expect(tokenizer.count("ab ab")).toBe(2);
+    });
+
+    it("prefers the longest special token", () => {
+        const tokenizer = createTiktokenTokenizer(file, {
+            specialTokens: { "<|im|>": 100, "<|im|>x": 101 },
+        });
+        expect(tokenizer.encode?.("a<|im|>xb<|im|>")).toEqual([0, 101, 1, 100]);
+    });
+
+    it("throws on malformed files and unknown bytes", () => {
+        expect(() => createTiktokenTokenizer("YQ== x")).toThrow(TokenizerError);
+        expect(() => createTiktokenTokenizer(file).count("d")).toThrow(
+            TokenizerError,
+        );
+    });
+});
+
+describe("createHuggingFaceTokenizer", () => {
+    const json = {
+        added_tokens: [{ id: 5, content: "<|eot|>", special: true }],
+        pre_tokenizer: { type: "ByteLevel", add_prefix_space: false },
+        model: {
+            type: "BPE",
+            vocab: { a: 0, b: 1, Ġ: 2, ab: 3, Ġab: 4 },
+            merges: ["a b", ["Ġ", "ab"]],
+        },
+    };
+
+    it("encodes byte-level BPE with merges", () => {
+        const tokenizer = createHuggingFaceTokenizer(JSON.stringify(json));
+        expect(tokenizer.encode?.("ab ab<|eot|>")).toEqual([3, 4, 5]);
+        expect(tokenizer.encode?.(" a b")).toEqual([2, 0, 2, 1]);
+        expect(() => tokenizer.count("c")).toThrow(TokenizerError);
+    });
+
+    it("supports the Llama 3 pre-tokenizer and ignore_merges", () => {
+        const llama3 = {
+            ...json,
+            pre_tokenizer: {
+                type: "Sequence",
+                pretokenizers: [
+                    {
+                        type: "Split",
+                        pattern: {
+                            Regex: "(?i:'s|'t|'re|'ve|'m|'ll|'d)|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+",
+                        },
+                        behavior: "Isolated",
+                        invert: false,
+                    },
+                    { type: "ByteLevel", use_regex: false },
+                ],
+            },
+            model: {
+                type: "BPE",
+                vocab: {
+                    a: 0,
+                    b: 1,
+                    "'": 2,
+                    S: 3,
+                    "'S": 4,
+                    Ġ: 5,
+                    ab: 6,
+                    Ġab: 7,
+                    abab: 8,
+                },
+                merges: ["a b", "' S", "Ġ ab"],
+                ignore_merges: true,
+            },
+        };
+        const tokenizer = createHuggingFaceTokenizer(llama3);
+        // `'S` is split as a contraction, and `abab` is taken as it is.
+        expect(tokenizer.encode?.("abab'Sab ab")).toEqual([8, 4, 6, 7]);
+        expect(() =>
+            createHuggingFaceTokenizer({
+                ...llama3,
+                pre_tokenizer: {
+                    type: "Split",
+                    pattern: { Regex: "\\s" },
+                    behavior: "Removed",
+                },
+            }),
+        ).toThrow(TokenizerError);
+        expect(() =>
+            createHuggingFaceTokenizer({
+                ...llama3,
+                pre_tokenizer: {
+                    type: "Split",
+                    pattern: { Regex: "(" },
+                },
+            }),
+        ).toThrow(TokenizerError);
+    });
+
+    it("rejects unsupported tokenizers", () => {
+        expect(() =>
+            createHuggingFaceTokenizer({
+                ...json,
+                model: { ...json.model, type: "Unigram" },
+            }),
+        ).toThrow(TokenizerError);
+        expect(() =>
+            createHuggingFaceTokenizer({
+                ...json,
+                pre_tokenizer: { type: "Metaspace" },
+            }),
+        ).toThrow(TokenizerError);
+    });
+});
@@ -0,0 +1,261 @@
+import { describe, expect, it } from "vitest";
+import { AssetIntegrityError } from "@/assets";
+import { CBORError, decodeCBOR, encodeCBOR } from "@/cbor";
+import {
+    CorruptedDataError,
+    PasswordRequiredError,
+    WrongPasswordError,
+} from "@/encryption";
+import {
+    EnvelopeError,
+    HEADER_SIZE,
+    readEnvelope,
+    readEnvelopeHeader,
+} from "@/envelope";
+import {
+    exportCharacter,
+    generateSigningKey,
+    importCharacter,
+    SignatureError,
+    signCharacter,
+    verifyCharacter,
+} from "@/transport";
+import type { Character } from "@/types/v0/Character";
+import { createCharacter } from "./fixtures";
+
+const character: Character = createCharacter({
+    description: "Light Attribute AoE Dealer.",
+    avatarUrl: "avatar.png",
+    prompt: {
+        description: "You are Aris.",
+        lorebook: {
+            config: { tokenLimit: 100 },
+            data: [
+                {
+                    id: "l1",
+                    name: "Millennium",
+                    condition: [{ type: "plain_text_match", text: "school" }],
+                    content: "Millennium Science School.",
+                    priority: -1.5,
+                },
+            ],
+        },
+    },
+    metadata: { author: "concertypin" },
+    assets: {
+        assets: [
+            {
+                mimeType: "image/png",
+                name: "avatar.png",
+                data: new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255]),
+            },
+            {
+                mimeType: "image/png",
+                name: "remote.png",
+                data: "https://example.com/remote.png",
+            },
+        ],
+    },
+});
+
+describe("CBOR codec", () => {
+    it("round-trips the supported data model", () => {
+        const value = {
+            int: 1,
+            big: 2 ** 40,
+            negative: -500,
+            float: 0.25,
+            text: "안녕 ✨",
+            bytes: new Uint8Array([1, 2, 3]),
+            list: [true, false, null],
+            nested: { empty: {} },
+        };
+        expect(decodeCBOR(encodeCBOR(value))).toEqual(value);
+    });
+
+    it("omits object keys with undefined value", () => {
+        expect(decodeCBOR(encodeCBOR({ a: undefined, b: 1 }))).toEqual({
+            b: 1,
+        });
+    });
+
+    it("sorts map keys in canonical mode", () => {
+        const a = encodeCBOR({ bb: 1, a: { y: 2, x: 1 } }, { canonical: true });
+        const b = encodeCBOR({ a: { x: 1, y: 2 }, bb: 1 }, { canonical: true });
+        expect(a).toEqual(b);
+        expect(Object.keys(decodeCBOR(a) as object)).toEqual(["a", "bb"]);
+        expect(encodeCBOR({ bb: 1, a: 2 })).not.toEqual(a);
+    });
+
+    it("rejects unsupported values and malformed input", () => {
+        expect(() => encodeCBOR({ date: new Date() })).toThrow(CBORError);
+        expect(() => decodeCBOR(new Uint8Array([0x62, 0x61]))).toThrow(
+            CBORError,
+        );
+        expect(() => decodeCBOR(new Uint8Array([0x01, 0x02]))).toThrow(
+            CBORError,
+        );
+    });
+});
+
+describe("Character transport", () => {
+    it("round-trips a character, including binary assets", async () => {
+        const exported = await exportCharacter(character);
+        expect(exported).toBeInstanceOf(Uint8Array);
+
+        const imported = await importCharacter(exported);
+        expect(imported).toEqual(character);
+
+        const avatar = imported.assets.assets[0]?.data;
+        expect(avatar).toBeInstanceOf(Uint8Array);
+        expect(avatar).toEqual(
+            new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255]),
+        );
+    });
+
+    it("wraps the payload with the envelope header", async () => {
+        const exported = await exportCharacter(character, {
+            codec: "deflate-raw",
+        });
+        expect(readEnvelopeHeader(exported)).toEqual({
+            containerVersion: 1,
+            codec: "deflate-raw",
+            flags: 0,
+            specVersion: 0,
+        });
+        expect(await importCharacter(exported)).toEqual(character);
+    });
+
+    it("supports uncompressed payloads", async () => {
+        const exported = await exportCharacter(character, { codec: "none" });
+        expect(decodeCBOR(exported.subarray(HEADER_SIZE))).toEqual(character);
+        expect(await importCharacter(exported)).toEqual(character);
+    });
+
+    it("writes back unknown fields preserved on import", async () => {
+        const future = { ...character, addedByNewerClient: "keep me" };
+        const exported = await exportCharacter(future);
+
+        expect(await importCharacter(exported)).not.toHaveProperty(
+            "addedByNewerClient",
+        );
+        const preserved = await importCharacter(exported, {
+            preserveUnknown: true,
+        });
+        expect(preserved).toHaveProperty("addedByNewerClient", "keep me");
+
+        const reimported = await importCharacter(
+            await exportCharacter(preserved),
+            { preserveUnknown: true },
+        );
+        expect(reimported).toEqual(preserved);
+    });
+
+    it("rejects assets whose data doesn't match their hash", async () => {
+        const tampered = structuredClone(character);
+        const avatar = tampered.assets.assets[0];
+        if (!avatar) throw new Error("Missing avatar");
+        avatar.hash = "0".repeat(64);
+        await expect(
+            importCharacter(await exportCharacter(tampered)),
+        ).rejects.toThrow(AssetIntegrityError);
+    });
+
+    it("rejects data that is not an exported character", async () => {
+        await expect(
+            importCharacter(new Uint8Array([1, 2, 3, 4])),
+        ).rejects.toThrow(EnvelopeError);
+
+        const exported = await exportCharacter(character);
+        exported[5] = 99; // Unknown codec
+        await expect(importCharacter(exported)).rejects.toThrow(EnvelopeError);
+    });
+});
+
+describe("Signed character packages", () => {
+    it("verifies the signature and returns the fingerprint", async () => {
+        const key = await generateSigningKey();
+        const signed = await signCharacter(character, key);
+        expect(readEnvelopeHeader(signed).flags).toBe(1);
+
+        const verified = await verifyCharacter(signed);
+        expect(verified.character).toEqual(character);
+        expect(verified.publicKey).toEqual(
+            new Uint8Array(await crypto.subtle.exportKey("raw", key.publicKey)),
+        );
+        expect(verified.fingerprint).toMatch(/^[0-9a-f]{64}$/);
+        expect(await importCharacter(signed)).toEqual(character);
+    });
+
+    it("doesn't depend on the key order", async () => {
+        const key = await generateSigningKey();
+        const { metadata, ...rest } = character;
+        const reordered = { metadata, ...rest };
+        const signed = await signCharacter(character, key);
+        const { signature } = readEnvelope(signed);
+        const other = await signCharacter(reordered, key, { codec: "none" });
+        expect(readEnvelope(other).signature?.signature).toEqual(
+            signature?.signature,
+        );
+    });
+
+    it("rejects unsigned and tampered packages", async () => {
+        await expect(
+            verifyCharacter(await exportCharacter(character)),
+        ).rejects.toThrow(SignatureError);
+
+        const key = await generateSigningKey();
+        const tampered = await signCharacter(
+            { ...character, name: "Alice" },
+            key,
+            { codec: "none" },
+        );
+        const genuine = await signCharacter(character, key, { codec: "none" });
+        // Keep the signature of the genuine character, with the tampered payload.
+        tampered.set(genuine.subarray(0, HEADER_SIZE + 96));
+        await expect(verifyCharacter(tampered)).rejects.toThrow(SignatureError);
+        await expect(verifyCharacter(genuine)).resolves.toBeDefined();
+    });
+});
+
+describe("Encrypted character packages", () => {
+    const options = { password: "sensei", iterations: 1000 };
+
+    it("round-trips with the password", async () => {
+        const encrypted = await exportCharacter(character, options);
+        expect(readEnvelopeHeader(encrypted).flags).toBe(2);
+        expect(
+            await importCharacter(encrypted, { password: "sensei" }),
+        ).toEqual(character);
+        await expect(importCharacter(encrypted)).rejects.toThrow(
+            PasswordRequiredError,
+        );
+    });
+
+    it("tells a wrong password apart from corrupted data", async () => {
+        const encrypted = await exportCharacter(character, options);
+        await expect(
+            importCharacter(encrypted, { password: "wrong" }),
+        ).rejects.toThrow(WrongPasswordError);
+
+        const corrupted = encrypted.slice();
+        corrupted.set([(corrupted.at(-1) ?? 0) ^ 1], corrupted.length - 1);
+        await expect(
+            importCharacter(corrupted, { password: "sensei" }),
+        ).rejects.toThrow(CorruptedDataError);
+
+        const swapped = encrypted.slice();
+        swapped[8] = 1; // specVersion in the header is authenticated
+        await expect(
+            importCharacter(swapped, { password: "sensei" }),
+        ).rejects.toThrow(CorruptedDataError);
+    });
+
+    it("can be signed and encrypted together", async () => {
+        const key = await generateSigningKey();
+        const bytes = await signCharacter(character, key, options);
+        expect(readEnvelopeHeader(bytes).flags).toBe(3);
+        const verified = await verifyCharacter(bytes, { password: "sensei" });
+        expect(verified.character).toEqual(character);
+    });
+});
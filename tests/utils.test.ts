@@ -1,7 +1,13 @@
 import { describe, expect, it } from "vitest";
 import { type Message, MessageSchema } from "@/types/v0";
 import { unique } from "@/types/v0/utils";
-import { apply } from "@/utils";
+import {
+    apply,
+    applyPreservingUnknown,
+    fromDataURL,
+    restoreUnknownKeys,
+    toDataURL,
+} from "@/utils";
 
 describe("unique helper", () => {
     it("returns true for arrays with unique key values", () => {
@@ -34,3 +40,55 @@ describe("apply helper", () => {
         expect(message.inlays.length).toBe(0);
     });
 });
+describe("restoreUnknownKeys helper", () => {
+    it("copies missing keys in nested objects and arrays", () => {
+        const input = { a: 1, extra: 2, list: [{ b: 1, more: 3 }] };
+        const output = restoreUnknownKeys(input, { a: 1, list: [{ b: 1 }] });
+        expect(output).toEqual(input);
+    });
+
+    it("keeps __proto__ as a plain field", () => {
+        const input = JSON.parse('{"__proto__": {"polluted": true}}');
+        const output = restoreUnknownKeys(input, {});
+        expect(Object.getPrototypeOf(output)).toBe(Object.prototype);
+        expect(Object.keys(output)).toEqual(["__proto__"]);
+    });
+
+    it("applyPreservingUnknown validates known fields", () => {
+        const content = {
+            type: "text" as const,
+            data: "hi",
+            reactions: ["👍"],
+        };
+        const message = applyPreservingUnknown(MessageSchema, {
+            id: "1",
+            chatId: "chat1",
+            role: "user",
+            content,
+        });
+        expect(message.content).toHaveProperty("reactions", ["👍"]);
+        expect(() =>
+            applyPreservingUnknown(MessageSchema, {
+                ...message,
+                // @ts-expect-error invalid role
+                role: "narrator",
+            }),
+        ).toThrow();
+    });
+});
+describe("data URL helpers", () => {
+    it("round-trips binary data", () => {
+        const data = new Uint8Array([0, 1, 254, 255]);
+        const url = toDataURL(data, "image/png");
+        expect(url).toBe("data:image/png;base64,AAH+/w==");
+        expect(fromDataURL(url)).toEqual({ mimeType: "image/png", data });
+    });
+
+    it("decodes percent-encoded payloads and rejects other URLs", () => {
+        expect(fromDataURL("data:,a%20b")).toEqual({
+            mimeType: "text/plain",
+            data: new TextEncoder().encode("a b"),
+        });
+        expect(fromDataURL("https://example.com")).toBeNull();
+    });
+});
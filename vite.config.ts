@@ -57,6 +57,30 @@ export default defineConfig({
             entry: {
                 index: "src/index.ts",
                 utils: "src/utils.ts",
+                cbor: "src/cbor.ts",
+                transport: "src/transport.ts",
+                envelope: "src/envelope.ts",
+                detect: "src/detect.ts",
+                migration: "src/migration.ts",
+                report: "src/report.ts",
+                card: "src/card.ts",
+                png: "src/png.ts",
+                lorebook: "src/lorebook.ts",
+                tokenizer: "src/tokenizer.ts",
+                replace: "src/replace.ts",
+                script: "src/script.ts",
+                worker: "src/worker.ts",
+                macro: "src/macro.ts",
+                prompt: "src/prompt.ts",
+                formats: "src/formats.ts",
+                lint: "src/lint.ts",
+                redos: "src/redos.ts",
+                messages: "src/messages.ts",
+                mime: "src/mime.ts",
+                license: "src/license.ts",
+                limits: "src/limits.ts",
+                assets: "src/assets.ts",
+                encryption: "src/encryption.ts",
                 ...typeEntries,
             },
             fileName: (_, entryName) => `${entryName}.js`,
@@ -65,7 +89,7 @@ export default defineConfig({
         },
         sourcemap: true,
         rollupOptions: {
-            external: ["zod"],
+            external: ["zod", /^node:/],
         },
     },
     test: {